@@ -1,98 +1,1554 @@
-import { App, MarkdownRenderChild, Plugin, TFile, moment, Editor, MarkdownView, Modal, Setting, MarkdownPostProcessorContext } from 'obsidian';
+import { App, MarkdownRenderChild, Plugin, TFile, moment, Editor, MarkdownView, Modal, Setting, MarkdownPostProcessorContext, Events, CachedMetadata, Notice, ItemView, WorkspaceLeaf, normalizePath, PluginSettingTab, MarkdownRenderer, Keymap, getAllTags, Menu, TextComponent, Component } from 'obsidian';
 import { EditorView, Decoration, DecorationSet, WidgetType, ViewPlugin, ViewUpdate } from "@codemirror/view";
 import { RangeSetBuilder } from "@codemirror/state";
 
 interface FastTask {
+    id: string;
+    fingerprint: string;
+    // Position among the tasks with the same fingerprint in its file, counted from the top
+    occurrence: number;
     text: string;
-    completed: boolean;
+    status: TaskStatus;
     line: number;
     path: string;
     completedDate?: string;
+    cancelledDate?: string;
     cleanText: string;
     priority: 'high' | 'normal' | 'low';
+    dueDate?: string;
+    scheduledDate?: string;
+    startDate?: string;
+    createdDate?: string;
+    recurrence?: string;
+    // `#tags` in the description, as written
+    tags: string[];
+    // Nearest heading above the task, filled in by the index
+    heading?: string;
+    // Nearest ancestor list item that is itself a task, and the tasks nested directly below
+    parent?: FastTask;
+    children: FastTask[];
+}
+
+interface TaskEditResult {
+    description: string;
+    statusSymbol: string;
+    priority: 'high' | 'normal' | 'low';
+    dueDate?: string;
+    recurrence?: string;
+    // Not editable in the modal, but written back so edits don't drop them
+    scheduledDate?: string;
+    startDate?: string;
+    createdDate?: string;
+}
+
+// A change made from a todos block, kept so it can be undone. `after` spans two lines when
+// completing a recurring task added its next occurrence.
+interface TaskOperation {
+    label: string;
+    edits: Array<{ path: string, line: number, before: string, after: string }>;
+}
+
+// One replacement for `applyLineEdits`. `before` may span several lines; a null `after` removes them.
+interface LineEdit {
+    line: number;
+    before: string;
+    after: string | null;
+}
+
+// Dates, priority and recurrence read from a task line in either metadata format
+interface TaskFields {
+    priority: 'high' | 'normal' | 'low';
+    dueDate?: string;
+    scheduledDate?: string;
+    startDate?: string;
+    createdDate?: string;
+    completedDate?: string;
+    cancelledDate?: string;
+    recurrence?: string;
+}
+
+// One level of `group by` output. `file` is set only when the group is a single note,
+// so its header can link there. With several `group by` lines, groups nest via `subgroups`.
+interface TaskGroup {
+    // The grouped value: status symbol, priority, path, lower-cased tag, ...; '' when missing
+    key: string;
+    name: string;
+    sortKey: string;
+    file?: TFile;
+    tasks: FastTask[];
+    subgroups: TaskGroup[];
+}
+
+const SORT_KEYS = ['priority', 'path', 'description', 'done', 'due', 'line', 'status', 'tag'];
+// Older spellings of sort keys that blocks in the wild still use
+const SORT_ALIASES: Record<string, string> = { 'alphabet': 'description', 'date': 'done', 'done date': 'done' };
+
+const LAYOUTS = ['list', 'board', 'calendar', 'calendar month', 'calendar week', 'agenda'];
+
+const GROUP_FIELDS = ['filename', 'path', 'folder', 'tag', 'priority', 'heading', 'status', 'done date', 'due'];
+
+// `[due: 2026-11-01]` tags, or the `📅 2026-11-01` emoji fields of the Obsidian Tasks plugin
+type TaskFormat = 'bracket' | 'emoji';
+
+type StatusType = 'todo' | 'in-progress' | 'done' | 'cancelled' | 'deferred';
+
+interface TaskStatus {
+    symbol: string;
+    name: string;
+    type: StatusType;
+    // Symbol the renderer checkbox moves to when clicked
+    nextSymbol: string;
+}
+
+interface FastTodosSettings {
+    statuses: TaskStatus[];
+    dashboardQuery: string;
+    // Quick capture: a fixed inbox file, today's daily note, or a heading in a given note
+    captureDestination: 'inbox' | 'daily' | 'heading';
+    inboxPath: string;
+    // Moment formats inside {{ }} are filled in with today's date
+    dailyNotePath: string;
+    captureNotePath: string;
+    captureHeading: string;
+    // Moment format for the date inside `[completed: ...]` and `[cancelled: ...]`
+    stampDateFormat: string;
+    // Folders where typing `[x]` in the editor doesn't add or remove stamps
+    autoStampExcludedFolders: string[];
+    countdownSeconds: number;
+    autoStampDelay: number;
+    refreshDelay: number;
+    // Tag name written for priorities; `[priority: ...]` is always understood too
+    priorityTag: string;
+    // Format used whenever the plugin writes metadata; both formats are always read
+    taskFormat: TaskFormat;
+    // Done tasks completed more than `archiveAfterDays` days ago move to `archivePath`,
+    // on command or, with `autoArchive`, every hour
+    archivePath: string;
+    archiveAfterDays: number;
+    autoArchive: boolean;
+}
+
+const DEFAULT_STATUSES: TaskStatus[] = [
+    { symbol: ' ', name: 'Todo', type: 'todo', nextSymbol: '/' },
+    { symbol: '/', name: 'In Progress', type: 'in-progress', nextSymbol: 'x' },
+    { symbol: 'x', name: 'Done', type: 'done', nextSymbol: ' ' },
+    { symbol: '-', name: 'Cancelled', type: 'cancelled', nextSymbol: ' ' },
+    { symbol: '>', name: 'Deferred', type: 'deferred', nextSymbol: ' ' }
+];
+
+const DEFAULT_SETTINGS: FastTodosSettings = {
+    statuses: DEFAULT_STATUSES,
+    dashboardQuery: 'group by filename',
+    captureDestination: 'inbox',
+    inboxPath: 'Inbox.md',
+    dailyNotePath: 'Daily/{{YYYY-MM-DD}}.md',
+    captureNotePath: 'Tasks.md',
+    captureHeading: 'Inbox',
+    stampDateFormat: 'YYYY-MM-DD',
+    autoStampExcludedFolders: [],
+    countdownSeconds: 5,
+    autoStampDelay: 500,
+    refreshDelay: 500,
+    priorityTag: 'priority',
+    taskFormat: 'bracket',
+    archivePath: 'Archive.md',
+    archiveAfterDays: 7,
+    autoArchive: false
+};
+
+const VIEW_TYPE_DASHBOARD = 'fast-todos-dashboard';
+const MAX_HISTORY = 50;
+// How many lines away from its recorded line a task is still looked for
+const LOCATE_WINDOW = 10;
+const AUTO_ARCHIVE_INTERVAL = 60 * 60 * 1000;
+
+// The active settings plus the statuses and regexes derived from them.
+// Replaced by `applySettings` whenever settings are loaded or saved.
+let activeSettings: FastTodosSettings = DEFAULT_SETTINGS;
+let activeStatuses: TaskStatus[] = DEFAULT_STATUSES;
+let priorityTagRegex = buildPriorityTagRegex('priority');
+let metadataTagRegex = buildMetadataTagRegex('priority');
+
+// Any single-character checkbox is a task, as in Obsidian; symbols without a configured
+// status read as open tasks (see `statusForSymbol`)
+const taskLineRegex = /^(\s*[-*+\d\.\s]*\s*\[(.)\]\s*)(.*)/;
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// [1] is the priority value
+function buildPriorityTagRegex(tag: string): RegExp {
+    return new RegExp(`\\[(?:priority|${escapeRegex(tag)}):+\\s*(high|normal|low)\\]`, 'i');
+}
+
+// Every bracket tag the plugin manages, stripped from descriptions before display or rewrite
+function buildMetadataTagRegex(tag: string): RegExp {
+    return new RegExp(`\\s*\\[(?:priority|${escapeRegex(tag)}|created|completed|completion|cancelled|due|scheduled|start|repeat):+[^\\]]+\\]`, 'gi');
+}
+
+function applySettings(settings: FastTodosSettings) {
+    activeSettings = settings;
+    activeStatuses = settings.statuses.length > 0 ? settings.statuses : DEFAULT_STATUSES;
+
+    const tag = settings.priorityTag.trim() || 'priority';
+    priorityTagRegex = buildPriorityTagRegex(tag);
+    metadataTagRegex = buildMetadataTagRegex(tag);
+}
+
+function formatStampDate(): string {
+    return moment().format(activeSettings.stampDateFormat || 'YYYY-MM-DD');
+}
+
+// Reads the date out of a stamp written with the configured format (or plain ISO)
+// and normalises it to YYYY-MM-DD so date queries keep working with any format.
+function parseStampDate(raw: string): string {
+    const parsed = moment(raw.trim(), [activeSettings.stampDateFormat, 'YYYY-MM-DD']);
+    return parsed.isValid() ? parsed.format('YYYY-MM-DD') : raw.trim();
+}
+
+// Matches a task line: [1] prefix including the checkbox, [2] the symbol, [3] the content after it.
+function matchTaskLine(line: string): RegExpMatchArray | null {
+    return line.match(taskLineRegex);
+}
+
+// Unconfigured symbols such as [!] or [?] get an open status that keeps the symbol, so
+// those tasks stay listed and are written back unchanged until their status is changed
+function statusForSymbol(symbol: string): TaskStatus {
+    return activeStatuses.find(s => s.symbol === symbol)
+        || activeStatuses.find(s => s.symbol === symbol.toLowerCase())
+        || { symbol, name: `[${symbol}]`, type: 'todo', nextSymbol: statusForType('done').symbol };
+}
+
+function isConfiguredStatus(status: TaskStatus): boolean {
+    return activeStatuses.indexOf(status) !== -1;
+}
+
+function statusForType(type: StatusType): TaskStatus {
+    return activeStatuses.find(s => s.type === type) || DEFAULT_STATUSES.find(s => s.type === type)!;
+}
+
+// Done and cancelled tasks are both finished and drop out of `not done`
+function isClosed(status: TaskStatus): boolean {
+    return status.type === 'done' || status.type === 'cancelled';
+}
+
+// Obsidian Tasks emoji fields. Emoji are matched with alternations rather than character
+// classes because most of them are surrogate pairs. [1] is the value.
+const emojiDueRegex = /(?:📅|📆|🗓)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/;
+const emojiScheduledRegex = /(?:⏳|⌛)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/;
+const emojiStartRegex = /🛫\uFE0F?\s*(\d{4}-\d{2}-\d{2})/;
+const emojiCreatedRegex = /➕\uFE0F?\s*(\d{4}-\d{2}-\d{2})/;
+const emojiDoneRegex = /✅\uFE0F?\s*(\d{4}-\d{2}-\d{2})/;
+const emojiCancelledRegex = /❌\uFE0F?\s*(\d{4}-\d{2}-\d{2})/;
+const emojiPriorityRegex = /(🔺|⏫|🔼|🔽|⏬)\uFE0F?/;
+const emojiRecurrenceRegex = /🔁\uFE0F?\s*([a-zA-Z0-9, !]+?)(?=\s*(?:🔺|⏫|🔼|🔽|⏬|➕|🛫|⏳|⌛|📅|📆|🗓|❌|✅|#|$))/;
+const emojiFieldsRegex = new RegExp([
+    emojiDueRegex, emojiScheduledRegex, emojiStartRegex, emojiCreatedRegex, emojiDoneRegex,
+    emojiCancelledRegex, emojiPriorityRegex, emojiRecurrenceRegex
+].map(r => `\\s*${r.source}`).join('|'), 'g');
+
+// Tasks has five levels; the outer two fold into high and low, and medium (🔼) reads as
+// normal. An existing 🔼 is kept by edits that leave the priority at normal.
+const EMOJI_PRIORITIES: Record<string, 'high' | 'normal' | 'low'> = {
+    '🔺': 'high', '⏫': 'high', '🔼': 'normal', '🔽': 'low', '⏬': 'low'
+};
+
+const FIELD_EMOJI = { repeat: '🔁', created: '➕', start: '🛫', scheduled: '⏳', due: '📅' };
+
+const completionStampRegex = /\s*(?:\[(?:completed|completion):\s*[^\]]*\]|✅\uFE0F?\s*\d{4}-\d{2}-\d{2})/gi;
+const cancelledStampRegex = /\s*(?:\[cancelled:\s*[^\]]*\]|❌\uFE0F?\s*\d{4}-\d{2}-\d{2})/gi;
+
+// Reads the metadata of a task line's content. Bracket tags win when a line mixes both formats.
+function parseTaskFields(content: string): TaskFields {
+    const bracket = (tag: string) => {
+        const match = content.match(new RegExp(`\\[${tag}:+\\s*([^\\]]+)\\]`, 'i'));
+        return match ? match[1].trim() : undefined;
+    };
+    const emoji = (regex: RegExp) => {
+        const match = content.match(regex);
+        return match ? match[1].trim() : undefined;
+    };
+
+    const priorityMatch = content.match(priorityTagRegex);
+    const emojiPriority = content.match(emojiPriorityRegex);
+    const completed = bracket('(?:completed|completion)');
+    const cancelled = bracket('cancelled');
+
+    return {
+        priority: priorityMatch ? priorityMatch[1].toLowerCase() as TaskFields['priority']
+            : emojiPriority ? EMOJI_PRIORITIES[emojiPriority[1]] : 'normal',
+        dueDate: bracket('due') || emoji(emojiDueRegex),
+        scheduledDate: bracket('scheduled') || emoji(emojiScheduledRegex),
+        startDate: bracket('start') || emoji(emojiStartRegex),
+        createdDate: bracket('created') || emoji(emojiCreatedRegex),
+        completedDate: completed ? parseStampDate(completed) : emoji(emojiDoneRegex),
+        cancelledDate: cancelled ? parseStampDate(cancelled) : emoji(emojiCancelledRegex),
+        recurrence: bracket('repeat') || emoji(emojiRecurrenceRegex)
+    };
+}
+
+// Removes every metadata tag and emoji field, leaving the description
+function stripTaskFields(content: string): string {
+    return content.replace(metadataTagRegex, '').replace(emojiFieldsRegex, '').trim();
+}
+
+// A single metadata field in the configured format, with a leading space
+function formatTaskField(name: keyof typeof FIELD_EMOJI, value: string): string {
+    return activeSettings.taskFormat === 'emoji' ? ` ${FIELD_EMOJI[name]} ${value}` : ` [${name}: ${value}]`;
+}
+
+function hasMediumMarker(content: string): boolean {
+    const match = content.match(emojiPriorityRegex);
+    return !!match && match[1] === '🔼';
+}
+
+function formatPriority(priority: 'high' | 'low'): string {
+    if (activeSettings.taskFormat === 'emoji') return priority === 'high' ? ' ⏫' : ' 🔽';
+    return ` [${activeSettings.priorityTag}: ${priority}]`;
+}
+
+// Adds or removes the completion and cancellation stamps so they match the status.
+// Existing stamps in either format are kept as they are. Emoji stamps are always ISO
+// dates, since that's all the Tasks plugin reads.
+function applyStatusStamps(line: string, status: TaskStatus): string {
+    const emoji = activeSettings.taskFormat === 'emoji';
+    const now = emoji ? moment().format('YYYY-MM-DD') : formatStampDate();
+    let result = line;
+
+    if (status.type === 'done') {
+        if (!result.match(completionStampRegex)) result = result.trimEnd() + (emoji ? ` ✅ ${now}` : ` [completed: ${now}]`);
+    } else {
+        result = result.replace(completionStampRegex, '');
+    }
+
+    if (status.type === 'cancelled') {
+        if (!result.match(cancelledStampRegex)) result = result.trimEnd() + (emoji ? ` ❌ ${now}` : ` [cancelled: ${now}]`);
+    } else {
+        result = result.replace(cancelledStampRegex, '');
+    }
+    return result.trimEnd();
+}
+
+// Description followed by the metadata tags, in the order the edit modal writes them.
+// `original` is the line being replaced, if any, so a medium marker can be carried over.
+function serializeTaskBody(result: TaskEditResult, original?: string): string {
+    // Strip known metadata tags before re-adding
+    let body = stripTaskFields(result.description);
+
+    if (result.priority && result.priority !== 'normal') {
+        body += formatPriority(result.priority);
+    } else if (original && hasMediumMarker(original)) {
+        body += ' 🔼';
+    }
+    if (result.recurrence) body += formatTaskField('repeat', result.recurrence);
+    if (result.createdDate) body += formatTaskField('created', result.createdDate);
+    if (result.startDate) body += formatTaskField('start', result.startDate);
+    if (result.scheduledDate) body += formatTaskField('scheduled', result.scheduledDate);
+    if (result.dueDate) body += formatTaskField('due', result.dueDate);
+    return body;
+}
+
+// Inserts `line` at the end of the section under `heading` (matched case-insensitively,
+// any level), or at the end of the note. A missing heading is created at the end.
+function insertTaskLine(content: string, line: string, heading?: string): string {
+    const lines = content.split('\n');
+    if (heading) {
+        const headingRegex = /^(#{1,6})\s+(.*)$/;
+        const start = lines.findIndex(l => {
+            const m = l.match(headingRegex);
+            return !!m && m[2].trim().toLowerCase() === heading.toLowerCase();
+        });
+        if (start !== -1) {
+            const level = lines[start].match(headingRegex)![1].length;
+            let end = start + 1;
+            while (end < lines.length) {
+                const m = lines[end].match(headingRegex);
+                if (m && m[1].length <= level) break;
+                end++;
+            }
+            while (end > start + 1 && lines[end - 1].trim() === '') end--;
+            lines.splice(end, 0, line);
+            return lines.join('\n');
+        }
+    }
+
+    const trimmed = content.replace(/\s+$/, '');
+    const sectionHeader = heading ? `\n## ${heading}\n` : '';
+    return (trimmed ? trimmed + '\n' : '') + sectionHeader + line + '\n';
+}
+
+// Rewrites a task line to `status`: swaps the checkbox symbol and syncs the stamps while
+// leaving priority and other tags alone. Completing a recurring task appends its next
+// occurrence after a newline. Returns null if the line isn't a task.
+function setLineStatus(line: string, status: TaskStatus): string | null {
+    const taskMatch = matchTaskLine(line);
+    if (!taskMatch) return null;
+
+    const basePrefix = taskMatch[1].replace(/\[.\]/, `[${status.symbol}]`);
+    let finalLine = applyStatusStamps(basePrefix + taskMatch[3], status);
+
+    const wasDone = statusForSymbol(taskMatch[2]).type === 'done';
+    if (status.type === 'done' && !wasDone) {
+        const nextLine = buildNextOccurrence(finalLine);
+        if (nextLine) finalLine += '\n' + nextLine;
+    }
+    return finalLine;
+}
+
+// Moves a task line to the next priority (normal -> high -> low -> normal).
+function cyclePriority(line: string): string {
+    const taskMatch = matchTaskLine(line);
+    const current = parseTaskFields(taskMatch ? taskMatch[3] : line).priority;
+    const order: Array<'normal' | 'high' | 'low'> = ['normal', 'high', 'low'];
+    return setLinePriority(line, order[(order.indexOf(current) + 1) % order.length]);
+}
+
+// Replaces a task line's priority. The tag goes right after the description, where the
+// edit modal writes it.
+function setLinePriority(line: string, priority: 'high' | 'normal' | 'low'): string {
+    const keepMedium = priority === 'normal' && hasMediumMarker(line);
+    let stripped = line.replace(new RegExp(`\\s*${priorityTagRegex.source}`, 'i'), '');
+    if (!keepMedium) stripped = stripped.replace(new RegExp(`\\s*${emojiPriorityRegex.source}`), '');
+    stripped = stripped.replace(/\s+$/, '');
+    return priority === 'normal' ? stripped : insertBeforeMetadata(stripped, formatPriority(priority));
+}
+
+// Swaps the tag `from` for `to` in a task line. Either may be null to only add or remove a tag.
+function replaceTag(line: string, from: string | null, to: string | null): string {
+    const tagRegex = (tag: string) => new RegExp(`(^|\\s)${escapeRegex(tag)}(?=[\\s,]|$)`, 'i');
+    // A tag the line already has isn't added twice; only `from` is removed then
+    if (to && tagRegex(to).test(line)) to = null;
+
+    let result = line;
+    if (from) {
+        result = result.replace(tagRegex(from), to ? `$1${to}` : '');
+        if (to && result !== line) return result;
+    }
+    return to ? insertBeforeMetadata(result, ` ${to}`) : result;
+}
+
+// Inserts `text` between a task's description and its metadata
+function insertBeforeMetadata(line: string, text: string): string {
+    const found = [
+        line.search(/\s*(?:\[(?:repeat|due|scheduled|start|created|completed|completion|cancelled):|🔺|⏫|🔼|🔽|⏬|🔁|➕|🛫|⏳|⌛|📅|📆|🗓|❌|✅)/i),
+        line.search(new RegExp(`\\s*${priorityTagRegex.source}`, 'i'))
+    ].filter(i => i !== -1);
+    if (found.length === 0) return line.trimEnd() + text;
+    const metaIndex = Math.min(...found);
+    return line.slice(0, metaIndex) + text + line.slice(metaIndex);
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Resolves a date in a query into a YYYY-MM-DD string: "today", "tomorrow", "yesterday",
+// an ISO date, a weekday ("friday" is today or the coming one, "last friday" and
+// "next friday" are strictly before and after today), "3 days ago" or "in 2 weeks".
+// Returns null for anything else.
+function resolveDate(value: string): string | null {
+    const v = value.toLowerCase().trim().replace(/\s+/g, ' ');
+    const today = moment().startOf('day');
+    if (v === 'today') return today.format('YYYY-MM-DD');
+    if (v === 'tomorrow') return today.add(1, 'day').format('YYYY-MM-DD');
+    if (v === 'yesterday') return today.subtract(1, 'day').format('YYYY-MM-DD');
+
+    const weekday = v.match(/^(?:(last|next|this) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+    if (weekday) {
+        const target = WEEKDAYS.indexOf(weekday[2]);
+        const step = weekday[1] === 'last' ? -1 : 1;
+        if (weekday[1] === 'last' || weekday[1] === 'next') today.add(step, 'day');
+        while (today.day() !== target) today.add(step, 'day');
+        return today.format('YYYY-MM-DD');
+    }
+
+    const relative = v.match(/^(?:(\d+) (day|week|month|year)s? ago|in (\d+) (day|week|month|year)s?)$/);
+    if (relative) {
+        if (relative[1]) return today.subtract(parseInt(relative[1]), relative[2] as 'day').format('YYYY-MM-DD');
+        return today.add(parseInt(relative[3]), relative[4] as 'day').format('YYYY-MM-DD');
+    }
+
+    const parsed = moment(v, 'YYYY-MM-DD', true);
+    return parsed.isValid() ? parsed.format('YYYY-MM-DD') : null;
+}
+
+// Resolves a date or a period into an inclusive [start, end] range of YYYY-MM-DD strings:
+// anything `resolveDate` accepts, "this/last/next week" (Monday to Sunday),
+// "this/last/next month" or "last 7 days" (the 7 days ending today). Returns null otherwise.
+function resolveDateRange(value: string): [string, string] | null {
+    const v = value.toLowerCase().trim().replace(/\s+/g, ' ');
+    const format = (m: moment.Moment) => m.format('YYYY-MM-DD');
+
+    const period = v.match(/^(this|last|next) (week|month)$/);
+    if (period) {
+        const unit = period[2] === 'week' ? 'isoWeek' : 'month';
+        const start = moment().startOf(unit);
+        if (period[1] !== 'this') start.add(period[1] === 'last' ? -1 : 1, period[2] as 'week');
+        return [format(start), format(start.clone().endOf(unit))];
+    }
+
+    const lastDays = v.match(/^(?:in )?(?:the )?last (\d+) days?$/);
+    if (lastDays) {
+        return [format(moment().subtract(parseInt(lastDays[1]) - 1, 'day')), format(moment())];
+    }
+
+    const date = resolveDate(v);
+    return date ? [date, date] : null;
+}
+
+// Computes the date following `from` for a `[repeat: ...]` rule such as
+// "every week", "every 2 days", "every monday" or "every month on the 1st".
+function nextOccurrence(rule: string, from: string): string | null {
+    // Callers pass the completion date as `from` for Tasks' "when done" rules
+    const r = rule.toLowerCase().trim().replace(/\s+when done$/, '');
+    const base = moment(from, 'YYYY-MM-DD', true);
+    if (!base.isValid()) return null;
+
+    const weekdayMatch = r.match(/^every\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+    if (weekdayMatch) {
+        const target = WEEKDAYS.indexOf(weekdayMatch[1]);
+        const next = base.clone().add(1, 'day');
+        while (next.day() !== target) next.add(1, 'day');
+        return next.format('YYYY-MM-DD');
+    }
+
+    const match = r.match(/^every\s+(?:(\d+)\s+)?(day|week|month|year)s?(?:\s+on\s+the\s+(\d{1,2})(?:st|nd|rd|th)?)?$/);
+    if (!match) return null;
+
+    const amount = match[1] ? parseInt(match[1]) : 1;
+    const unit = match[2] as 'day' | 'week' | 'month' | 'year';
+    const next = base.clone().add(amount, unit);
+    if (match[3] && unit === 'month') {
+        next.date(Math.min(parseInt(match[3]), next.daysInMonth()));
+    }
+    return next.format('YYYY-MM-DD');
+}
+
+// Given a just-completed task line carrying a `[repeat: ...]` tag, builds the
+// unchecked line for its next occurrence. Returns null for non-recurring lines.
+function buildNextOccurrence(line: string): string | null {
+    const taskMatch = matchTaskLine(line);
+    if (!taskMatch) return null;
+
+    const fields = parseTaskFields(taskMatch[3]);
+    if (!fields.recurrence) return null;
+
+    // "when done" rules repeat from the completion date, which is today
+    const today = moment().format('YYYY-MM-DD');
+    const whenDone = /\swhen done$/i.test(fields.recurrence.trim());
+    const base = whenDone ? today : fields.dueDate || today;
+    const nextDue = nextOccurrence(fields.recurrence, base);
+    if (!nextDue) return null;
+
+    const prefix = taskMatch[1].replace(/\[.\]/, `[${statusForType('todo').symbol}]`);
+    let nextLine = (prefix + taskMatch[3]).replace(completionStampRegex, '');
+
+    // Dates keep whichever format they were written in
+    const replaceDate = (tag: string, emojiRegex: RegExp, emoji: string, value: string): boolean => {
+        const bracket = nextLine.match(new RegExp(`\\[${tag}:+\\s*[^\\]]+\\]`, 'i'));
+        const emojiMatch = nextLine.match(emojiRegex);
+        if (bracket) nextLine = nextLine.replace(bracket[0], `[${tag}: ${value}]`);
+        else if (emojiMatch) nextLine = nextLine.replace(emojiMatch[0], `${emoji} ${value}`);
+        return !!(bracket || emojiMatch);
+    };
+
+    // Scheduled and start dates move by as much as the due date, so they stay ahead of it
+    const offset = moment(nextDue, 'YYYY-MM-DD').diff(moment(fields.dueDate || base, 'YYYY-MM-DD'), 'days');
+    const shift = (date: string) => moment(date, 'YYYY-MM-DD').add(offset, 'days').format('YYYY-MM-DD');
+    if (fields.scheduledDate) replaceDate('scheduled', emojiScheduledRegex, '⏳', shift(fields.scheduledDate));
+    if (fields.startDate) replaceDate('start', emojiStartRegex, '🛫', shift(fields.startDate));
+
+    if (!replaceDate('due', emojiDueRegex, '📅', nextDue)) {
+        nextLine = nextLine.trimEnd() + formatTaskField('due', nextDue);
+    }
+    return nextLine.trimEnd();
+}
+
+// Content fingerprint of a task line that ignores indentation, checkbox state and the
+// status stamps, so a task keeps its identity while being toggled or shifted around.
+function taskFingerprint(line: string): string | null {
+    const match = matchTaskLine(line);
+    if (!match) return null;
+
+    const body = match[3].replace(completionStampRegex, '').replace(cancelledStampRegex, '').trim();
+    let hash = 5381;
+    for (let i = 0; i < body.length; i++) {
+        hash = ((hash << 5) + hash + body.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+}
+
+// Builds the stable id for the `occurrence`-th task with this fingerprint in a file.
+function buildTaskId(path: string, fingerprint: string, occurrence: number): string {
+    return occurrence > 0 ? `${path}:${fingerprint}:${occurrence}` : `${path}:${fingerprint}`;
+}
+
+// Finds the current line of a task in `lines`. The recorded line wins if it still holds
+// the task; otherwise only lines with the same fingerprint within LOCATE_WINDOW lines are
+// considered, preferring the one that is still the same occurrence and then the nearest.
+// Returns -1 if none is close enough, so a far-away identical task is never written.
+function locateTask(lines: string[], task: FastTask): number {
+    const matches = (i: number) => i >= 0 && i < lines.length && taskFingerprint(lines[i]) === task.fingerprint;
+    const occurrenceAt = (i: number) => {
+        let count = 0;
+        for (let j = 0; j < i; j++) if (matches(j)) count++;
+        return count;
+    };
+
+    if (matches(task.line)) return task.line;
+    let nearest = -1;
+    for (let offset = 1; offset <= LOCATE_WINDOW; offset++) {
+        for (const i of [task.line - offset, task.line + offset]) {
+            if (!matches(i)) continue;
+            if (occurrenceAt(i) === task.occurrence) return i;
+            if (nearest === -1) nearest = i;
+        }
+    }
+    return nearest;
+}
+
+// Finds `expected` (one or more lines) in `lines`, preferring `hint` and then the nearest match
+// within LOCATE_WINDOW lines of it.
+function findLine(lines: string[], expected: string, hint: number): number {
+    const expectedLines = expected.split('\n');
+    const matches = (i: number) => i >= 0 && expectedLines.every((l, k) => lines[i + k] === l);
+
+    if (matches(hint)) return hint;
+    for (let offset = 1; offset <= LOCATE_WINDOW; offset++) {
+        if (matches(hint - offset)) return hint - offset;
+        if (matches(hint + offset)) return hint + offset;
+    }
+    return -1;
+}
+
+// Each task's line plus the lines nested below it. Tasks that can't be found, or that sit
+// inside another task's block, are left out.
+function findTaskBlocks(lines: string[], tasks: FastTask[]): Array<{ task: FastTask, line: number, text: string }> {
+    const indentOf = (l: string) => l.match(/^\s*/)![0].length;
+    const found = tasks.map(task => ({ task, line: locateTask(lines, task) }))
+        .filter(b => b.line !== -1)
+        .sort((a, b) => a.line - b.line);
+
+    const blocks: Array<{ task: FastTask, line: number, text: string }> = [];
+    let coveredUntil = -1;
+    for (const { task, line } of found) {
+        if (line < coveredUntil) continue;
+        let end = line + 1;
+        while (end < lines.length && lines[end].trim() !== '' && indentOf(lines[end]) > indentOf(lines[line])) end++;
+        blocks.push({ task, line, text: lines.slice(line, end).join('\n') });
+        coveredUntil = end;
+    }
+    return blocks;
+}
+
+// Strips the indentation of a block's first line from all of its lines, so a nested task
+// lands as a top-level task when moved to another note
+function outdentBlock(text: string): string {
+    const baseIndent = text.match(/^\s*/)![0];
+    return text.split('\n').map(l => l.startsWith(baseIndent) ? l.slice(baseIndent.length) : l).join('\n');
+}
+
+// Vault path of a note given with or without its .md extension
+function notePath(path: string): string {
+    return normalizePath(path.endsWith('.md') ? path : `${path}.md`);
+}
+
+function groupByPath<T extends { path: string }>(items: T[]): Map<string, T[]> {
+    const byPath = new Map<string, T[]>();
+    for (const item of items) {
+        if (!byPath.has(item.path)) byPath.set(item.path, []);
+        byPath.get(item.path)!.push(item);
+    }
+    return byPath;
+}
+
+function shortTaskText(task: FastTask): string {
+    return task.cleanText.length > 40 ? task.cleanText.slice(0, 40) + '…' : task.cleanText;
+}
+
+// Ascending order for a single `sort by` key. Missing dates and tags sort last.
+function compareTasks(a: FastTask, b: FastTask, key: string): number {
+    const text = (x: string, y: string) => x.localeCompare(y);
+    switch (key) {
+        case 'priority': {
+            const weight = { high: 0, normal: 1, low: 2 };
+            return weight[a.priority] - weight[b.priority];
+        }
+        case 'path': return text(a.path, b.path);
+        case 'description': return text(a.cleanText, b.cleanText);
+        case 'done': return text(a.completedDate || '9999-99-99', b.completedDate || '9999-99-99');
+        case 'due': return text(a.dueDate || '9999-99-99', b.dueDate || '9999-99-99');
+        case 'line': return a.line - b.line;
+        case 'status': return activeStatuses.indexOf(a.status) - activeStatuses.indexOf(b.status);
+        case 'tag': return text((a.tags[0] || '\uffff').toLowerCase(), (b.tags[0] || '\uffff').toLowerCase());
+    }
+    return 0;
+}
+
+type ExportFormat = 'csv' | 'json' | 'ics';
+
+// Fields written by CSV and JSON exports. `line` is 1-based, as the editor shows it.
+function exportRows(tasks: FastTask[]) {
+    return tasks.map(task => ({
+        path: task.path,
+        line: task.line + 1,
+        description: task.cleanText,
+        status: task.status.name,
+        priority: task.priority,
+        due: task.dueDate || '',
+        completed: task.completedDate || '',
+        tags: task.tags
+    }));
+}
+
+function tasksToCsv(tasks: FastTask[]): string {
+    const quote = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const lines = ['path,line,description,status,priority,due,completed,tags'];
+    for (const row of exportRows(tasks)) {
+        lines.push([row.path, String(row.line), row.description, row.status, row.priority, row.due, row.completed, row.tags.join(' ')].map(quote).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+}
+
+function tasksToJson(tasks: FastTask[]): string {
+    return JSON.stringify(exportRows(tasks), null, 2);
+}
+
+// Only tasks with a date can be placed in a calendar
+function isDatedTask(task: FastTask): boolean {
+    return !!(task.dueDate || task.scheduledDate || task.startDate || task.completedDate);
+}
+
+// One VTODO per dated task (RFC 5545). Dates are all-day values; the completion time,
+// which iCalendar requires, is local midnight of the completion date.
+function tasksToIcs(tasks: FastTask[]): string {
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+    const day = (date: string) => date.replace(/-/g, '');
+    const utc = (date: moment.Moment) => date.utc().format('YYYYMMDD[T]HHmmss[Z]');
+    const statuses: Record<StatusType, string> = { 'todo': 'NEEDS-ACTION', 'in-progress': 'IN-PROCESS', 'done': 'COMPLETED', 'cancelled': 'CANCELLED', 'deferred': 'NEEDS-ACTION' };
+    const stamp = utc(moment());
+
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Fast Todos//Obsidian//EN'];
+    for (const task of tasks.filter(isDatedTask)) {
+        lines.push('BEGIN:VTODO', `UID:${escape(task.id)}@fast-todos`, `DTSTAMP:${stamp}`, `SUMMARY:${escape(task.cleanText)}`, `DESCRIPTION:${escape(`${task.path}:${task.line + 1}`)}`);
+        // DUE must come after DTSTART, so a start on or after the due day is left out
+        const start = task.scheduledDate || task.startDate;
+        if (start && (!task.dueDate || start < task.dueDate)) lines.push(`DTSTART;VALUE=DATE:${day(start)}`);
+        if (task.dueDate) lines.push(`DUE;VALUE=DATE:${day(task.dueDate)}`);
+        lines.push(`STATUS:${statuses[task.status.type]}`);
+        if (task.completedDate) lines.push(`COMPLETED:${utc(moment(task.completedDate, 'YYYY-MM-DD'))}`);
+        if (task.priority !== 'normal') lines.push(`PRIORITY:${task.priority === 'high' ? 1 : 9}`);
+        if (task.tags.length > 0) lines.push(`CATEGORIES:${task.tags.map(tag => escape(tag.replace(/^#/, ''))).join(',')}`);
+        lines.push('END:VTODO');
+    }
+    lines.push('END:VCALENDAR');
+
+    // Lines longer than 75 octets of UTF-8 are folded onto continuation lines starting with
+    // a space, without splitting a character
+    const utf8Length = (char: string) => {
+        const code = char.codePointAt(0)!;
+        return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    };
+    const folded = lines.map(line => {
+        const parts: string[] = [];
+        let part = '';
+        let bytes = 0;
+        for (const char of Array.from(line)) {
+            const size = utf8Length(char);
+            // Continuation lines lose one octet to the leading space
+            if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+                parts.push(part);
+                part = '';
+                bytes = 0;
+            }
+            part += char;
+            bytes += size;
+        }
+        parts.push(part);
+        return parts.join('\r\n ');
+    });
+    return folded.join('\r\n') + '\r\n';
+}
+
+type TaskFilter = (task: FastTask) => boolean;
+
+class QueryError extends Error { }
+
+interface QueryToken {
+    type: 'word' | 'and' | 'or' | 'not' | 'lparen' | 'rparen';
+    value: string;
+}
+
+// Splits a query line into words, parentheses and the upper-case AND / OR / NOT
+// operators. Double-quoted strings become a single word and are never treated as operators,
+// and so does a `/regex/flags` literal following `matches`.
+function tokenizeQuery(line: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let i = 0;
+    while (i < line.length) {
+        const ch = line[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '(' || ch === ')') {
+            tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', value: ch });
+            i++;
+        } else if (ch === '"') {
+            const end = line.indexOf('"', i + 1);
+            if (end === -1) throw new QueryError('Unterminated quoted string');
+            tokens.push({ type: 'word', value: line.slice(i + 1, end) });
+            i = end + 1;
+        } else if (ch === '/' && tokens.length > 0 && tokens[tokens.length - 1].value.toLowerCase() === 'matches') {
+            let end = i + 1;
+            while (end < line.length && line[end] !== '/') end += line[end] === '\\' ? 2 : 1;
+            if (end >= line.length) throw new QueryError('Unterminated regular expression');
+            end++;
+            while (end < line.length && /[a-z]/i.test(line[end])) end++;
+            tokens.push({ type: 'word', value: line.slice(i, end) });
+            i = end;
+        } else {
+            let end = i;
+            while (end < line.length && !/[\s()"]/.test(line[end])) end++;
+            const word = line.slice(i, end);
+            if (word === 'AND') tokens.push({ type: 'and', value: word });
+            else if (word === 'OR') tokens.push({ type: 'or', value: word });
+            else if (word === 'NOT') tokens.push({ type: 'not', value: word });
+            else tokens.push({ type: 'word', value: word });
+            i = end;
+        }
+    }
+    return tokens;
+}
+
+// Recursive-descent parser for a single filter line. Precedence (loosest first):
+// OR, AND, NOT, then parenthesised groups and atoms. Atoms are runs of consecutive
+// words handed to `compileAtom`, which throws a QueryError for anything it doesn't know.
+function compileQuery(line: string, compileAtom: (atom: string) => TaskFilter): TaskFilter {
+    const tokens = tokenizeQuery(line);
+    let pos = 0;
+
+    const parseOr = (): TaskFilter => {
+        const parts = [parseAnd()];
+        while (tokens[pos]?.type === 'or') {
+            pos++;
+            parts.push(parseAnd());
+        }
+        return parts.length === 1 ? parts[0] : (t) => parts.some(p => p(t));
+    };
+
+    const parseAnd = (): TaskFilter => {
+        const parts = [parseNot()];
+        while (tokens[pos]?.type === 'and') {
+            pos++;
+            parts.push(parseNot());
+        }
+        return parts.length === 1 ? parts[0] : (t) => parts.every(p => p(t));
+    };
+
+    const parseNot = (): TaskFilter => {
+        if (tokens[pos]?.type === 'not') {
+            pos++;
+            const inner = parseNot();
+            return (t) => !inner(t);
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): TaskFilter => {
+        const token = tokens[pos];
+        if (!token) throw new QueryError('Expected a filter but reached the end of the line');
+        if (token.type === 'lparen') {
+            pos++;
+            const inner = parseOr();
+            if (tokens[pos]?.type !== 'rparen') throw new QueryError('Missing closing parenthesis');
+            pos++;
+            return inner;
+        }
+        if (token.type !== 'word') throw new QueryError(`Unexpected "${token.value}"`);
+
+        const words: string[] = [];
+        while (tokens[pos]?.type === 'word') {
+            words.push(tokens[pos].value);
+            pos++;
+        }
+        return compileAtom(words.join(' '));
+    };
+
+    const filter = parseOr();
+    if (pos < tokens.length) throw new QueryError(`Unexpected "${tokens[pos].value}"`);
+    return filter;
 }
 
 export default class FastTodos extends Plugin {
     public lastInternalUpdate: number = 0;
     private completionTimer: NodeJS.Timeout | null = null;
-    private completionRegex = /\[(?:completed|completion):\s*[^\]]*\]/i;
+    private history: TaskOperation[] = [];
+    // Set while an archive run is writing, so runs never overlap
+    private archiving = false;
+    // Mounted todos blocks, and the one the user last clicked in
+    public renderers: Set<FastTodosRenderer> = new Set();
+    public activeRenderer: FastTodosRenderer | null = null;
     public TaskEditModalClass = TaskEditModal;
+    public taskIndex: TaskIndex;
+    public settings: FastTodosSettings;
+
+    async onload() {
+        console.log('Loading Fast Todos');
+        await this.loadSettings();
+
+        this.taskIndex = new TaskIndex(this.app, this);
+        this.app.workspace.onLayoutReady(() => this.taskIndex.build());
+
+        // Keep the index in sync one file at a time instead of rescanning the vault
+        this.registerEvent(this.app.metadataCache.on('changed', (file, data, cache) => {
+            this.taskIndex.updateFile(file, data, cache);
+        }));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            if (file instanceof TFile) this.taskIndex.renameFile(file, oldPath);
+        }));
+        this.registerEvent(this.app.vault.on('delete', (file) => {
+            if (file instanceof TFile) this.taskIndex.removeFile(file.path);
+        }));
+
+        this.registerMarkdownCodeBlockProcessor('todos', async (source, el, ctx) => {
+            const child = new FastTodosRenderer(el, this.app, source, ctx.sourcePath, this);
+            ctx.addChild(child);
+        });
+
+        this.registerEvent(
+            this.app.workspace.on('editor-change', (editor: Editor) => {
+                if (this.completionTimer) clearTimeout(this.completionTimer);
+                this.completionTimer = setTimeout(() => {
+                    const lineCount = editor.lineCount();
+                    const activeFile = this.app.workspace.getActiveFile();
+                    const stampingEnabled = !activeFile || !this.isAutoStampExcluded(activeFile.path);
+                    // Line replacements, applied together once the scan is done so line numbers stay valid
+                    const replacements: Array<{ line: number, text: string }> = [];
+
+                    const seen: Record<string, number> = {};
+
+                    for (let i = 0; i < lineCount; i++) {
+                        const line = editor.getLine(i);
+                        const taskMatch = matchTaskLine(line);
+                        if (!taskMatch) continue;
+
+                        const fingerprint = taskFingerprint(line)!;
+                        const occurrence = seen[fingerprint] || 0;
+                        seen[fingerprint] = occurrence + 1;
+
+                        const status = statusForSymbol(taskMatch[2]);
+
+                        // A task was just checked if the index last recorded it as not done. This is
+                        // read before the broadcast below, which renderers apply to the indexed task.
+                        let justDone = false;
+                        if (activeFile) {
+                            const id = buildTaskId(activeFile.path, fingerprint, occurrence);
+                            const recorded = this.taskIndex.findTask(id) || this.taskIndex.getFileTasks(activeFile.path).find(t => t.line === i);
+                            justDone = status.type === 'done' && !!recorded && recorded.status.type !== 'done'
+                                && !line.match(completionStampRegex);
+                            // The note is re-indexed only after it's saved, so record the change now
+                            // to keep the next pass from seeing the same transition
+                            if (justDone) recorded!.status = status;
+
+                            // BROADCAST status change instantly to renderers
+                            (this.app.workspace as any).trigger('fast-todos:status-change', id, status.symbol);
+                        }
+                        // Lines with unconfigured symbols keep whatever stamps they have
+                        if (!stampingEnabled || !isConfiguredStatus(status)) continue;
+
+                        let newLine = applyStatusStamps(line, status);
+                        // Only a task that was just checked gets its next occurrence
+                        if (justDone) {
+                            const nextLine = buildNextOccurrence(newLine);
+                            if (nextLine) newLine += '\n' + nextLine;
+                        }
+
+                        if (line.trimEnd() !== newLine) replacements.push({ line: i, text: newLine });
+                    }
+
+                    if (replacements.length > 0) {
+                        const cm = (editor as any).cm;
+                        if (cm) {
+                            cm.dispatch({
+                                changes: replacements.map(r => ({ from: cm.state.doc.line(r.line + 1).from, to: cm.state.doc.line(r.line + 1).to, insert: r.text })),
+                                scrollIntoView: false
+                            });
+                        } else {
+                            editor.transaction({
+                                changes: replacements.map(r => ({ from: { line: r.line, ch: 0 }, to: { line: r.line, ch: editor.getLine(r.line).length }, text: r.text }))
+                            });
+                        }
+                        this.lastInternalUpdate = Date.now();
+                    }
+                }, this.settings.autoStampDelay);
+            })
+        );
+
+        this.addSettingTab(new FastTodosSettingTab(this.app, this));
+
+        this.registerMarkdownPostProcessor((el, ctx) => {
+            this.postProcessReadingModeTasks(el, ctx);
+        });
+
+        this.registerEditorExtension(editButtonPlugin(this.app, this));
+
+        this.registerView(VIEW_TYPE_DASHBOARD, (leaf) => new TaskDashboardView(leaf, this));
+        this.addRibbonIcon('list-checks', 'Open task dashboard', () => this.activateDashboard());
+        this.addCommand({
+            id: 'open-task-dashboard',
+            name: 'Open task dashboard',
+            callback: () => this.activateDashboard()
+        });
+
+        this.addRibbonIcon('list-plus', 'Capture task', () => this.openCaptureModal());
+        this.addCommand({
+            id: 'capture-task',
+            name: 'Capture task',
+            callback: () => this.openCaptureModal()
+        });
+
+        this.registerTaskCommands();
+
+        this.taskIndex.ready.then(() => this.autoArchive());
+        this.registerInterval(window.setInterval(() => this.autoArchive(), AUTO_ARCHIVE_INTERVAL));
+    }
+
+    openCaptureModal() {
+        const target = this.resolveCaptureTarget();
+        const label = target.heading ? `${target.path} › ${target.heading}` : target.path;
+        new CaptureTaskModal(this.app, this, label, async (result) => {
+            const line = `- [${statusForType('todo').symbol}] ${serializeTaskBody(result)}`;
+            if (await this.appendTaskLine(target.path, line, target.heading)) {
+                new Notice(`Task added to ${label}`);
+            }
+        }).open();
+    }
+
+    resolveCaptureTarget(): { path: string, heading?: string } {
+        const { settings } = this;
+        if (settings.captureDestination === 'daily') {
+            const path = settings.dailyNotePath.replace(/\{\{([^}]+)\}\}/g, (_, format: string) => moment().format(format.trim()));
+            return { path };
+        }
+        if (settings.captureDestination === 'heading') {
+            return { path: settings.captureNotePath, heading: settings.captureHeading || undefined };
+        }
+        return { path: settings.inboxPath };
+    }
+
+    // Creates a file, and its folder if that doesn't exist yet
+    private async createFile(filePath: string, content: string): Promise<TFile> {
+        const folder = filePath.split('/').slice(0, -1).join('/');
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(filePath, content);
+    }
+
+    // Appends a task line to a note (optionally under a heading), creating the note and
+    // its folder if needed.
+    async appendTaskLine(path: string, line: string, heading?: string): Promise<boolean> {
+        return this.appendTaskSections(path, [{ heading, text: line }]);
+    }
+
+    // Like `appendTaskLine` for several headings at once, in a single write
+    async appendTaskSections(path: string, sections: Array<{ heading?: string, text: string }>): Promise<boolean> {
+        const insertAll = (data: string) => sections.reduce((content, section) => insertTaskLine(content, section.text, section.heading), data);
+        try {
+            const filePath = notePath(path);
+            const existing = this.app.vault.getAbstractFileByPath(filePath);
+            this.lastInternalUpdate = Date.now();
+
+            if (!existing) {
+                await this.createFile(filePath, insertAll(''));
+                return true;
+            }
+            if (!(existing instanceof TFile)) {
+                new Notice(`Fast Todos: ${filePath} is not a note.`);
+                return false;
+            }
+
+            // An open note is changed through its editor so unsaved typing isn't overwritten.
+            // Only the span that differs is replaced, keeping the cursor where it was.
+            const editor = this.getOpenEditor(existing);
+            if (editor) {
+                const before = editor.getValue();
+                const after = insertAll(before);
+                let start = 0;
+                while (start < before.length && start < after.length && before[start] === after[start]) start++;
+                let end = 0;
+                while (end < before.length - start && end < after.length - start
+                    && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+                editor.replaceRange(after.slice(start, after.length - end), editor.offsetToPos(start), editor.offsetToPos(before.length - end));
+                return true;
+            }
+
+            await this.app.vault.process(existing, insertAll);
+            return true;
+        } catch (e) {
+            console.error("Append Task failed:", e);
+            new Notice('Fast Todos: could not add the task. Check console.');
+            return false;
+        }
+    }
+
+    // Moves tasks, with the lines nested below them, to the end of another note. The copies
+    // are added before the originals are removed, so a failure can't lose a task.
+    async moveTasksToFile(tasks: FastTask[], targetPath: string): Promise<boolean> {
+        const target = notePath(targetPath);
+        try {
+            const sources = await this.collectTaskBlocks(tasks.filter(t => t.path !== target));
+            if (sources.length === 0) return false;
+
+            const moved: string[] = [];
+            for (const { blocks } of sources) {
+                for (const block of blocks) moved.push(outdentBlock(block.text));
+            }
+            if (!await this.appendTaskLine(target, moved.join('\n'))) return false;
+
+            if ((await this.removeTaskBlocks(sources)).length < moved.length) {
+                new Notice(`Fast Todos: some tasks were copied to ${target} but could not be removed from their notes.`);
+                return false;
+            }
+            return true;
+        } catch (e) {
+            console.error("Move Tasks failed:", e);
+            new Notice('Fast Todos: could not move the tasks. Check console.');
+            return false;
+        }
+    }
+
+    // Done tasks completed more than `archiveAfterDays` days ago, in `file` or the whole vault
+    findArchivableTasks(file?: TFile): FastTask[] {
+        const cutoff = moment().subtract(this.settings.archiveAfterDays, 'days').format('YYYY-MM-DD');
+        const archivePath = notePath(this.settings.archivePath);
+        return this.taskIndex.getTasks().filter(task =>
+            (!file || task.path === file.path)
+            && task.path !== archivePath
+            && task.status.type === 'done'
+            && !!task.completedDate && task.completedDate < cutoff);
+    }
+
+    openArchivePreview(file?: TFile) {
+        const tasks = this.findArchivableTasks(file);
+        if (tasks.length === 0) {
+            new Notice(`Fast Todos: no tasks completed more than ${this.settings.archiveAfterDays} days ago.`);
+            return;
+        }
+        new ArchivePreviewModal(this.app, this, tasks).open();
+    }
+
+    // Moves tasks (and the lines nested below them) to the archive note, under one heading
+    // per source note and completion month. Returns the number of tasks archived.
+    async archiveTasks(tasks: FastTask[]): Promise<number> {
+        if (this.archiving) {
+            new Notice('Fast Todos: archiving is already in progress.');
+            return 0;
+        }
+        this.archiving = true;
+        try {
+            const sources = await this.collectTaskBlocks(tasks);
+            const sections: Array<{ heading: string, text: string, block: { line: number, text: string } }> = [];
+            for (const { file, blocks } of sources) {
+                for (const block of blocks) {
+                    const heading = `${file.path.replace(/\.md$/, '')} · ${block.task.completedDate!.slice(0, 7)}`;
+                    sections.push({ heading, text: outdentBlock(block.text), block });
+                }
+            }
+            if (sections.length === 0) return 0;
+            if (!await this.appendTaskSections(this.settings.archivePath, sections)) return 0;
+
+            // Blocks that changed before they could be removed are taken back out of the
+            // archive, so no task ends up in both places
+            const removed = new Set<object>(await this.removeTaskBlocks(sources));
+            const leftover = sections.filter(section => !removed.has(section.block));
+            if (leftover.length > 0) {
+                new Notice(await this.takeBackFromArchive(leftover)
+                    ? 'Fast Todos: some tasks changed before they could be archived and were left in their notes.'
+                    : `Fast Todos: some tasks were copied to ${this.settings.archivePath} but could not be removed from their notes.`);
+            }
+            return sections.length - leftover.length;
+        } catch (e) {
+            console.error("Archive Tasks failed:", e);
+            new Notice('Fast Todos: could not archive the tasks. Check console.');
+            return 0;
+        } finally {
+            this.archiving = false;
+        }
+    }
+
+    // Removes just-appended archive sections again. Each copy is the last match for its text
+    // under its heading, since `insertTaskLine` appends to the end of the section.
+    private async takeBackFromArchive(sections: Array<{ heading: string, text: string }>): Promise<boolean> {
+        const archive = this.app.vault.getAbstractFileByPath(notePath(this.settings.archivePath));
+        if (!(archive instanceof TFile)) return false;
+
+        const lines = (await this.readCurrent(archive)).split('\n');
+        const headingRegex = /^#{1,6}\s+(.*)$/;
+        const edits: LineEdit[] = sections.map(section => {
+            const start = lines.findIndex(l => {
+                const m = l.match(headingRegex);
+                return !!m && m[1].trim().toLowerCase() === section.heading.toLowerCase();
+            });
+            let end = start + 1;
+            while (end < lines.length && !headingRegex.test(lines[end])) end++;
+            const first = section.text.split('\n')[0];
+            let line = -1;
+            for (let i = end - 1; i > start; i--) {
+                if (lines[i] === first) {
+                    line = i;
+                    break;
+                }
+            }
+            return { line, before: section.text, after: null };
+        });
+        const found = edits.filter(edit => edit.line !== -1);
+        const applied = await this.applyLineEdits(archive, found);
+        return applied.length === edits.length;
+    }
+
+    private async autoArchive() {
+        // A run still in progress is simply skipped until the next interval
+        if (!this.settings.autoArchive || this.archiving) return;
+        const archived = await this.archiveTasks(this.findArchivableTasks());
+        if (archived > 0) new Notice(`Fast Todos: archived ${archived} completed task${archived === 1 ? '' : 's'}.`);
+    }
+
+    // The todos block last clicked in the active note, or else the note's first block
+    findActiveRenderer(): FastTodosRenderer | null {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        const active = this.activeRenderer;
+        if (active && active.containerEl.isConnected && (!view || view.containerEl.contains(active.containerEl))) return active;
+        if (!view) return null;
+        for (const renderer of this.renderers) {
+            if (view.containerEl.contains(renderer.containerEl)) return renderer;
+        }
+        return null;
+    }
+
+    // Writes a block's current result to a vault file, or to the clipboard when `path` is null.
+    // iCalendar exports leave out tasks without a date.
+    async exportResults(renderer: FastTodosRenderer, format: ExportFormat, path: string | null): Promise<boolean> {
+        const config = renderer.parseConfig(renderer.source);
+        if (config.errors.length > 0) {
+            new Notice('Fast Todos: fix the query errors before exporting.');
+            return false;
+        }
+        let tasks = await renderer.getResults(config);
+        if (format === 'ics') tasks = tasks.filter(isDatedTask);
+        if (tasks.length === 0) {
+            new Notice(format === 'ics' ? 'Fast Todos: no tasks with dates to export.' : 'Fast Todos: no tasks to export.');
+            return false;
+        }
+        const content = format === 'csv' ? tasksToCsv(tasks) : format === 'json' ? tasksToJson(tasks) : tasksToIcs(tasks);
+        const count = `${tasks.length} task${tasks.length === 1 ? '' : 's'}`;
+
+        try {
+            if (path === null) {
+                await navigator.clipboard.writeText(content);
+                new Notice(`Fast Todos: copied ${count}.`);
+                return true;
+            }
+
+            const filePath = normalizePath(path);
+            if (filePath.toLowerCase().endsWith('.md')) {
+                new Notice('Fast Todos: exports are never written to notes. Pick a .csv, .json or .ics file.');
+                return false;
+            }
+            const existing = this.app.vault.getAbstractFileByPath(filePath);
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, content);
+            } else if (existing) {
+                new Notice(`Fast Todos: ${filePath} is a folder.`);
+                return false;
+            } else {
+                await this.createFile(filePath, content);
+            }
+            new Notice(`Fast Todos: exported ${count} to ${filePath}.`);
+            return true;
+        } catch (e) {
+            console.error("Export failed:", e);
+            new Notice('Fast Todos: could not export the tasks. Check console.');
+            return false;
+        }
+    }
+
+    // Deletes tasks and the lines nested below them, with one write per note
+    async deleteTasks(tasks: FastTask[]): Promise<boolean> {
+        try {
+            const sources = await this.collectTaskBlocks(tasks);
+            const total = sources.reduce((count, source) => count + source.blocks.length, 0);
+            const removed = (await this.removeTaskBlocks(sources)).length === total;
+            if (!removed) new Notice('Fast Todos: some tasks changed before they could be deleted and were left alone.');
+            return removed;
+        } catch (e) {
+            console.error("Delete Tasks failed:", e);
+            new Notice('Fast Todos: could not delete the tasks. Check console.');
+            return false;
+        }
+    }
+
+    private async collectTaskBlocks(tasks: FastTask[]) {
+        const sources: Array<{ file: TFile, blocks: Array<{ task: FastTask, line: number, text: string }> }> = [];
+        let missing = 0;
+        for (const [path, fileTasks] of groupByPath(tasks)) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) {
+                missing += fileTasks.length;
+                continue;
+            }
+            const lines = (await this.readCurrent(file)).split('\n');
+            missing += fileTasks.filter(task => locateTask(lines, task) === -1).length;
+            const blocks = findTaskBlocks(lines, fileTasks);
+            if (blocks.length > 0) sources.push({ file, blocks });
+        }
+        if (missing === 1) new Notice('Fast Todos: task not found. It may have been edited or removed.');
+        else if (missing > 1) new Notice(`Fast Todos: ${missing} tasks were not found. They may have been edited or removed.`);
+        return sources;
+    }
+
+    // Removes each block from its note. Returns the blocks removed; the others changed
+    // since they were read and were left alone.
+    private async removeTaskBlocks<B extends { line: number, text: string }>(sources: Array<{ file: TFile, blocks: B[] }>): Promise<B[]> {
+        const removed: B[] = [];
+        for (const { file, blocks } of sources) {
+            const applied = await this.applyLineEdits(file, blocks.map(b => ({ line: b.line, before: b.text, after: null })));
+            const appliedTexts = applied.map(edit => edit.before);
+            for (const block of blocks) {
+                const index = appliedTexts.indexOf(block.text);
+                if (index === -1) continue;
+                appliedTexts.splice(index, 1);
+                removed.push(block);
+            }
+        }
+        return removed;
+    }
+
+    // Applies `rewrite` to the current line of each task, with one write per note. Tasks
+    // for which `rewrite` returns null or the same line are skipped. Returns the change made,
+    // for the caller to record, or null if nothing was written.
+    async rewriteTasks(tasks: FastTask[], rewrite: (line: string) => string | null, label: string): Promise<TaskOperation | null> {
+        const edits: TaskOperation['edits'] = [];
+        let missing = 0;
+        let stale = false;
+        try {
+            for (const [path, fileTasks] of groupByPath(tasks)) {
+                const file = this.app.vault.getAbstractFileByPath(path);
+                if (!(file instanceof TFile)) {
+                    missing += fileTasks.length;
+                    continue;
+                }
 
-    async onload() {
-        console.log('Loading Fast Todos');
+                const lines = (await this.readCurrent(file)).split('\n');
+                const fileEdits: LineEdit[] = [];
+                for (const task of fileTasks) {
+                    const lineNum = locateTask(lines, task);
+                    if (lineNum === -1) {
+                        missing++;
+                        continue;
+                    }
+                    const after = rewrite(lines[lineNum]);
+                    if (after !== null && after !== lines[lineNum]) fileEdits.push({ line: lineNum, before: lines[lineNum], after });
+                }
+                if (fileEdits.length === 0) continue;
 
-        this.registerMarkdownCodeBlockProcessor('todos', async (source, el, ctx) => {
-            const child = new FastTodosRenderer(el, this.app, source, ctx.sourcePath, this);
-            ctx.addChild(child);
-        });
+                const applied = await this.applyLineEdits(file, fileEdits);
+                if (applied.length < fileEdits.length) stale = true;
+                for (const edit of applied) edits.push({ path, line: edit.line, before: edit.before, after: edit.after! });
+            }
+        } catch (e) {
+            console.error("Rewrite Tasks failed:", e);
+            new Notice('Fast Todos: could not save the task changes. Check console.');
+        }
 
-        this.registerEvent(
-            this.app.workspace.on('editor-change', (editor: Editor) => {
-                if (this.completionTimer) clearTimeout(this.completionTimer);
-                this.completionTimer = setTimeout(() => {
-                    const lineCount = editor.lineCount();
-                    let changesMade = false;
-                    const activeFile = this.app.workspace.getActiveFile();
+        if (missing === 1) new Notice('Fast Todos: task not found. It may have been edited or removed.');
+        else if (missing > 1) new Notice(`Fast Todos: ${missing} tasks were not found. They may have been edited or removed.`);
+        if (stale) new Notice('Fast Todos: the task changed before it could be saved. Nothing was written.');
+        return edits.length > 0 ? { label, edits } : null;
+    }
 
-                    for (let i = 0; i < lineCount; i++) {
-                        const line = editor.getLine(i);
-                        const taskMatch = line.match(/^(\s*[-*+\d\.\s]*\s*\[([ xX])\]\s*)(.*)/);
-                        if (!taskMatch) continue;
+    private registerTaskCommands() {
+        this.addCommand({
+            id: 'toggle-task-at-cursor',
+            name: 'Toggle task done at cursor',
+            editorCheckCallback: (checking, editor) => {
+                const lineNum = editor.getCursor().line;
+                const line = editor.getLine(lineNum);
+                const taskMatch = matchTaskLine(line);
+                if (!taskMatch) return false;
+                if (checking) return true;
+
+                const next = isClosed(statusForSymbol(taskMatch[2])) ? statusForType('todo') : statusForType('done');
+                const newLine = setLineStatus(line, next);
+                if (newLine !== null) {
+                    this.lastInternalUpdate = Date.now();
+                    editor.setLine(lineNum, newLine);
+                }
+                return true;
+            }
+        });
 
-                        const isDone = taskMatch[2].toLowerCase() === 'x';
-                        const hasTag = this.completionRegex.test(line);
+        this.addCommand({
+            id: 'cycle-priority-at-cursor',
+            name: 'Cycle task priority at cursor',
+            editorCheckCallback: (checking, editor) => {
+                const lineNum = editor.getCursor().line;
+                const line = editor.getLine(lineNum);
+                if (!matchTaskLine(line)) return false;
+                if (checking) return true;
+
+                this.lastInternalUpdate = Date.now();
+                editor.setLine(lineNum, cyclePriority(line));
+                return true;
+            }
+        });
 
-                        // BROADCAST status change instantly to renderers
-                        if (activeFile) {
-                            const taskId = `${activeFile.path}:${i}`;
-                            (this.app.workspace as any).trigger('fast-todos:status-change', taskId, isDone);
-                        }
+        this.addCommand({
+            id: 'edit-task-at-cursor',
+            name: 'Edit task at cursor',
+            editorCheckCallback: (checking, editor, ctx) => {
+                const lineNum = editor.getCursor().line;
+                const line = editor.getLine(lineNum);
+                const file = ctx.file;
+                if (!file || !matchTaskLine(line)) return false;
+                if (checking) return true;
+
+                const task = this.parseTaskLine(line, lineNum, file.path);
+                new TaskEditModal(this.app, task, async (result) => {
+                    await this.handleTaskUpdate(file, task, result);
+                }).open();
+                return true;
+            }
+        });
 
-                        if (isDone && !hasTag) {
-                            const now = moment().format('YYYY-MM-DD');
-                            const newLine = line.trimEnd() + ` [completed: ${now}]`;
-                            if (line !== newLine) {
-                                const cm = (editor as any).cm;
-                                if (cm) {
-                                    cm.dispatch({
-                                        changes: { from: cm.state.doc.line(i + 1).from, to: cm.state.doc.line(i + 1).to, insert: newLine },
-                                        scrollIntoView: false
-                                    });
-                                } else {
-                                    editor.setLine(i, newLine);
-                                }
-                                changesMade = true;
-                            }
-                        } else if (!isDone && hasTag) {
-                            const newLine = line.replace(/\s*\[(?:completed|completion):\s*[^\]]*\]/gi, '').trimEnd();
-                            if (line !== newLine) {
-                                const cm = (editor as any).cm;
-                                if (cm) {
-                                    cm.dispatch({
-                                        changes: { from: cm.state.doc.line(i + 1).from, to: cm.state.doc.line(i + 1).to, insert: newLine },
-                                        scrollIntoView: false
-                                    });
-                                } else {
-                                    editor.setLine(i, newLine);
-                                }
-                                changesMade = true;
-                            }
-                        }
+        this.addCommand({
+            id: 'convert-to-tasks',
+            name: 'Convert line or selection to tasks',
+            editorCallback: (editor) => {
+                const from = editor.getCursor('from').line;
+                const to = editor.getCursor('to').line;
+                const converted: string[] = [];
+                const checkbox = `[${statusForType('todo').symbol}]`;
+
+                for (let i = from; i <= to; i++) {
+                    const line = editor.getLine(i);
+                    const listMatch = line.match(/^(\s*)([-*+]|\d+\.)\s+(.*)$/);
+                    if (line.trim() === '' || matchTaskLine(line)) {
+                        converted.push(line);
+                    } else if (listMatch) {
+                        converted.push(`${listMatch[1]}${listMatch[2]} ${checkbox} ${listMatch[3]}`);
+                    } else {
+                        const indent = line.match(/^\s*/)![0];
+                        converted.push(`${indent}- ${checkbox} ${line.trim()}`);
                     }
+                }
 
-                    if (changesMade) {
-                        this.lastInternalUpdate = Date.now();
-                        FastTodosRenderer.clearCache();
-                    }
-                }, 500);
-            })
-        );
+                // One replacement keeps the whole conversion a single undo step
+                editor.replaceRange(converted.join('\n'), { line: from, ch: 0 }, { line: to, ch: editor.getLine(to).length });
+            }
+        });
 
-        this.registerMarkdownPostProcessor((el, ctx) => {
-            this.postProcessReadingModeTasks(el, ctx);
+        this.addCommand({
+            id: 'refresh-todos-blocks',
+            name: 'Refresh all todos blocks',
+            callback: () => (this.app.workspace as any).trigger('fast-todos:refresh-all')
         });
 
-        this.registerEditorExtension(editButtonPlugin(this.app, this));
+        this.addCommand({
+            id: 'export-todos-block',
+            name: 'Export todos block',
+            checkCallback: (checking: boolean) => {
+                const renderer = this.findActiveRenderer();
+                if (!renderer) return false;
+                if (!checking) new ExportModal(this.app, this, renderer).open();
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'archive-completed-in-note',
+            name: 'Archive completed tasks in current note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file) return false;
+                if (!checking) this.openArchivePreview(file);
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'archive-completed-in-vault',
+            name: 'Archive completed tasks in the vault',
+            callback: () => this.openArchivePreview()
+        });
+
+        this.addCommand({
+            id: 'undo-task-change',
+            name: 'Undo last task change',
+            callback: () => this.undoLast()
+        });
+    }
+
+    // Remembers a change made from a todos block and offers to undo it from a notice
+    recordOperation(operation: TaskOperation) {
+        this.history.push(operation);
+        if (this.history.length > MAX_HISTORY) this.history.shift();
+
+        const fragment = createFragment(f => {
+            f.appendText(`${operation.label} `);
+            f.createEl('a', { text: 'Undo', href: '#' }).onclick = (e) => {
+                e.preventDefault();
+                this.undoOperation(operation);
+            };
+        });
+        new Notice(fragment, Math.max(this.settings.countdownSeconds, 5) * 1000);
+    }
+
+    async undoLast() {
+        const operation = this.history[this.history.length - 1];
+        if (!operation) {
+            new Notice('Fast Todos: nothing to undo.');
+            return;
+        }
+        await this.undoOperation(operation);
+    }
+
+    // Puts back the exact previous text of every edited line, with one write per note. Each
+    // line is verified before writing, so anything changed since then is left alone.
+    async undoOperation(operation: TaskOperation): Promise<boolean> {
+        const index = this.history.indexOf(operation);
+        if (index === -1) return false;
+        this.history.splice(index, 1);
+
+        let restored = true;
+        try {
+            for (const [path, edits] of groupByPath(operation.edits)) {
+                const file = this.app.vault.getAbstractFileByPath(path);
+                const applied = file instanceof TFile
+                    ? await this.applyLineEdits(file, edits.map(e => ({ line: e.line, before: e.after, after: e.before })))
+                    : [];
+                if (applied.length < edits.length) restored = false;
+            }
+            if (restored) new Notice(`Fast Todos: undid "${operation.label}"`);
+            else new Notice('Fast Todos: some lines changed since and were left alone.');
+        } catch (e) {
+            console.error("Undo failed:", e);
+            new Notice('Fast Todos: could not undo the change. Check console.');
+            restored = false;
+        }
+        (this.app.workspace as any).trigger('fast-todos:refresh-all');
+        return restored;
+    }
+
+    async activateDashboard() {
+        const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_DASHBOARD);
+        if (existing.length > 0) {
+            await this.app.workspace.revealLeaf(existing[0]);
+            return;
+        }
+
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (!leaf) return;
+        await leaf.setViewState({ type: VIEW_TYPE_DASHBOARD, active: true });
+        await this.app.workspace.revealLeaf(leaf);
     }
 
 
@@ -133,11 +1589,10 @@ export default class FastTodos extends Plugin {
                         const line = lines[i];
                         if (!line) continue;
 
-                        if (line.match(/^\s*[-*+\d\.\s]*\s*\[[ xX]\]/)) {
+                        // Count every checkbox like Obsidian does, even unconfigured symbols
+                        if (line.match(/^\s*[-*+\d\.\s]*\s*\[.\]/)) {
                             if (taskCount === index) {
-                                const taskStatusMatch = line.match(/\[([ xX])\]/);
-                                const isCompleted = taskStatusMatch ? (taskStatusMatch[1].toLowerCase() === 'x') : false;
-                                targetTask = this.parseTaskLine(line, i, file.path, isCompleted);
+                                if (matchTaskLine(line)) targetTask = this.parseTaskLine(line, i, file.path);
                                 break;
                             }
                             taskCount++;
@@ -152,10 +1607,10 @@ export default class FastTodos extends Plugin {
                 };
             }
 
-            // 2. Wrap completion tag in a stamp span
+            // 2. Wrap completion/cancellation tag in a stamp span
             // We search the entire HTML of the task item to replace the tag string
             // This is cleaner for ensuring a single box than walking text nodes
-            const matches = item.innerHTML.match(/\[(?:completed|completion):\s*[^\]]*\]/i);
+            const matches = item.innerHTML.match(/\[(?:completed|completion|cancelled):\s*[^\]]*\]/i);
             if (matches) {
                 const tagText = matches[0];
                 const stampHtml = `<span class="fast-todos-completion-stamp">${tagText}</span>`;
@@ -164,97 +1619,193 @@ export default class FastTodos extends Plugin {
         });
     }
 
-    private parseTaskLine(line: string, lineNum: number, path: string, isCompleted: boolean): FastTask {
-        const taskMatch = line.match(/^(\s*[-*+\d\.\s]*\s*\[[ xX]\])(.*)/);
-        const rawContent = taskMatch ? taskMatch[2] : line;
+    parseTaskLine(line: string, lineNum: number, path: string): FastTask {
+        const taskMatch = matchTaskLine(line);
+        const rawContent = taskMatch ? taskMatch[3] : line;
 
-        const completedMatch = rawContent.match(/\[(completed|completion):+\s*([^\]]+)\]/i);
-        const priorityMatch = rawContent.match(/\[priority:+\s*(high|normal|low)\]/i);
+        const fields = parseTaskFields(rawContent);
+        const displayDescription = stripTaskFields(rawContent);
 
-        let displayDescription = rawContent.replace(/\[(created|completed|completion|due|priority):+[^\]]+\]/gi, '').trim();
+        const fingerprint = taskFingerprint(line) || '';
 
         return {
+            id: buildTaskId(path, fingerprint, 0),
+            fingerprint,
+            occurrence: 0,
             text: line,
             cleanText: displayDescription || "(No Description)",
-            completed: isCompleted,
+            status: statusForSymbol(taskMatch ? taskMatch[2] : ' '),
             line: lineNum,
             path,
-            completedDate: completedMatch ? completedMatch[2] : undefined,
-            priority: priorityMatch ? priorityMatch[1].toLowerCase() as any : 'normal'
+            ...fields,
+            tags: (displayDescription.match(/(?:^|\s)#[^\s,#]+/g) || []).map(t => t.trim()),
+            children: []
         };
     }
 
-    async handleTaskUpdate(file: TFile, task: FastTask, result: { description: string, completed: boolean, priority: 'high' | 'normal' | 'low' }) {
+    // Rewrites a task from the edit modal. Returns the change made, or null if nothing was written.
+    async handleTaskUpdate(file: TFile, task: FastTask, result: TaskEditResult): Promise<TaskOperation | null> {
         try {
-            const content = await this.app.vault.read(file);
+            const content = await this.readCurrent(file);
             const lines = content.split('\n');
-            if (task.line >= lines.length) return;
+            const lineNum = locateTask(lines, task);
+            if (lineNum === -1) {
+                new Notice('Fast Todos: task not found. It may have been edited or removed.');
+                return null;
+            }
 
-            let line = lines[task.line];
-            if (!line) return;
+            const line = lines[lineNum];
 
-            const taskMatch = line.match(/^(\s*[-*+\d\.\s]*\s*\[[ xX]\]\s*)(.*)/);
-            if (!taskMatch) return;
+            const taskMatch = matchTaskLine(line);
+            if (!taskMatch) return null;
 
+            const status = statusForSymbol(result.statusSymbol);
             const prefix = taskMatch[1];
-            const basePrefix = prefix.replace(/\[.\]/, result.completed ? '[x]' : '[ ]');
+            const basePrefix = prefix.replace(/\[.\]/, `[${status.symbol}]`);
 
-            let cleanDesc = result.description.replace(/\[(?:priority|completed|completion|created|due):+[^\]]+\]/gi, '').trim();
+            const cleanDesc = serializeTaskBody(result, line);
 
-            if (result.priority && result.priority !== 'normal') {
-                cleanDesc += ` [priority: ${result.priority}]`;
+            // Carry over existing stamps so editing a finished task keeps its original date
+            let finalLine = basePrefix + cleanDesc;
+            for (const stamp of (line.match(completionStampRegex) || []).concat(line.match(cancelledStampRegex) || [])) {
+                finalLine += stamp;
             }
+            finalLine = applyStatusStamps(finalLine, status);
 
-            let finalLine = basePrefix + cleanDesc;
-            if (result.completed) {
-                const now = moment().format('YYYY-MM-DD');
-                // Check if completed tag existed? This simple logic just appends if completed.
-                // To be robust, we should arguably check if we need to update an existing completed tag or add one.
-                // But following the Renderer's logic:
-                if (!line.match(/\[completed:/)) {
-                    finalLine += ` [completed: ${now}]`;
-                }
-            } else {
-                // Remove completed tag if un-completing
-                finalLine = finalLine.replace(/\[(?:completed|completion):\s*[^\]]*\]/gi, '').trimEnd();
+            const wasDone = statusForSymbol(taskMatch[2]).type === 'done';
+            if (status.type === 'done' && !wasDone) {
+                const nextLine = buildNextOccurrence(finalLine);
+                if (nextLine) finalLine += '\n' + nextLine;
             }
 
-            await this.safeModifyLine(file, task.line, finalLine.trimEnd());
+            if (!await this.safeModifyLine(file, lineNum, line, finalLine)) return null;
+            return {
+                label: `Edited "${shortTaskText(task)}"`,
+                edits: [{ path: file.path, line: lineNum, before: line, after: finalLine }]
+            };
         } catch (e) {
             console.error("Update Task failed:", e);
+            new Notice('Fast Todos: could not save the task. Check console.');
+            return null;
         }
     }
 
-    async safeModifyLine(file: TFile, lineNum: number, newLine: string) {
-        this.lastInternalUpdate = Date.now();
-        let editorUsed = false;
+    async loadSettings() {
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        // The settings tab edits statuses in place, so they must not share objects with the defaults
+        this.settings.statuses = (data?.statuses ?? DEFAULT_STATUSES).map((status: TaskStatus) => ({ ...status }));
+        applySettings(this.settings);
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+        applySettings(this.settings);
+    }
 
-        this.app.workspace.iterateAllLeaves(leaf => {
+    isAutoStampExcluded(path: string): boolean {
+        return this.settings.autoStampExcludedFolders.some(folder => {
+            const prefix = folder.trim().replace(/\/+$/, '');
+            return prefix.length > 0 && (path === prefix || path.startsWith(prefix + '/'));
+        });
+    }
+
+    private getOpenEditor(file: TFile): Editor | null {
+        for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
             if (leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path) {
-                leaf.view.editor.setLine(lineNum, newLine);
-                editorUsed = true;
+                return leaf.view.editor;
             }
-        });
+        }
+        return null;
+    }
+
+    // Reads a file the way the user currently sees it, including unsaved editor changes
+    async readCurrent(file: TFile): Promise<string> {
+        const editor = this.getOpenEditor(file);
+        return editor ? editor.getValue() : await this.app.vault.read(file);
+    }
+
+    // Replaces `expectedLine` with `newLine`. The line is looked up again at write time
+    // (at `lineHint` first, then the nearest identical line) and written exactly once.
+    // Nothing is written if the expected text is gone.
+    async safeModifyLine(file: TFile, lineHint: number, expectedLine: string, newLine: string): Promise<boolean> {
+        const written = (await this.applyLineEdits(file, [{ line: lineHint, before: expectedLine, after: newLine }])).length > 0;
+        if (!written) {
+            new Notice('Fast Todos: the task changed before it could be saved. Nothing was written.');
+        }
+        return written;
+    }
+
+    // Applies several replacements to one note in a single write: one editor transaction
+    // through the first open editor, or one vault.process call when the note isn't open.
+    // Each edit's `before` text is looked up again at write time (at `line` first, then the
+    // nearest match) and edits whose text is gone are skipped. Returns the edits applied,
+    // with the lines they were found at.
+    async applyLineEdits(file: TFile, edits: LineEdit[]): Promise<LineEdit[]> {
+        this.lastInternalUpdate = Date.now();
+
+        const resolve = (lines: string[]) => {
+            const applied: LineEdit[] = [];
+            const taken = new Set<number>();
+            for (const edit of edits) {
+                const line = findLine(lines, edit.before, edit.line);
+                if (line === -1 || taken.has(line)) continue;
+                taken.add(line);
+                applied.push({ line, before: edit.before, after: edit.after });
+            }
+            // Bottom-up, so earlier line numbers stay valid while splicing
+            return applied.sort((a, b) => b.line - a.line);
+        };
 
-        if (!editorUsed) {
-            await this.app.vault.process(file, (data) => {
-                const lines = data.split('\n');
-                lines[lineNum] = newLine;
-                return lines.join('\n');
+        const editor = this.getOpenEditor(file);
+        if (editor) {
+            const lines = editor.getValue().split('\n');
+            const applied = resolve(lines);
+            if (applied.length === 0) return [];
+
+            editor.transaction({
+                changes: applied.map(edit => {
+                    const last = edit.line + edit.before.split('\n').length - 1;
+                    const lineEnd = { line: last, ch: lines[last].length };
+                    if (edit.after !== null) return { from: { line: edit.line, ch: 0 }, to: lineEnd, text: edit.after };
+                    if (last + 1 < lines.length) return { from: { line: edit.line, ch: 0 }, to: { line: last + 1, ch: 0 }, text: '' };
+                    // Last lines of the note: take the preceding line break with them
+                    const from = edit.line > 0 ? { line: edit.line - 1, ch: lines[edit.line - 1].length } : { line: 0, ch: 0 };
+                    return { from, to: lineEnd, text: '' };
+                })
             });
+            return applied;
         }
+
+        let applied: LineEdit[] = [];
+        await this.app.vault.process(file, (data) => {
+            const lines = data.split('\n');
+            applied = resolve(lines);
+            for (const edit of applied) {
+                const span = edit.before.split('\n').length;
+                if (edit.after !== null) lines.splice(edit.line, span, edit.after);
+                else lines.splice(edit.line, span);
+            }
+            return applied.length > 0 ? lines.join('\n') : data;
+        });
+        return applied;
     }
 }
 
 class TaskEditModal extends Modal {
-    result: { description: string, completed: boolean, priority: 'high' | 'normal' | 'low' };
+    result: TaskEditResult;
 
-    constructor(app: App, public task: FastTask, public onSubmit: (result: { description: string, completed: boolean, priority: 'high' | 'normal' | 'low' }) => void) {
+    constructor(app: App, public task: FastTask, public onSubmit: (result: TaskEditResult) => void) {
         super(app);
         this.result = {
             description: task.cleanText === "(No Description)" ? "" : task.cleanText,
-            completed: task.completed,
-            priority: task.priority
+            statusSymbol: task.status.symbol,
+            priority: task.priority,
+            dueDate: task.dueDate,
+            recurrence: task.recurrence,
+            scheduledDate: task.scheduledDate,
+            startDate: task.startDate,
+            createdDate: task.createdDate
         };
     }
 
@@ -263,16 +1814,36 @@ class TaskEditModal extends Modal {
         this.containerEl.addClass('fast-todos-modal');
         contentEl.createEl('h2', { text: 'Edit Task' });
 
+        this.addDescriptionField(contentEl);
+        this.addStatusField(contentEl);
+        this.addPriorityField(contentEl);
+        this.addDueDateField(contentEl);
+        this.addRepeatField(contentEl);
+        this.addSubmitButton(contentEl, 'Save');
+    }
+
+    protected addDescriptionField(contentEl: HTMLElement): HTMLTextAreaElement {
         const descContainer = contentEl.createDiv({ cls: 'fast-modal-description' });
         descContainer.createEl('label', { text: 'Description', cls: 'fast-modal-label' });
         const textarea = descContainer.createEl('textarea', { placeholder: 'Task description...' });
         textarea.value = this.result.description;
         textarea.oninput = (e) => this.result.description = (e.target as HTMLTextAreaElement).value;
+        return textarea;
+    }
 
+    protected addStatusField(contentEl: HTMLElement) {
         new Setting(contentEl)
-            .setName('Completed Status')
-            .addToggle(toggle => toggle.setValue(this.result.completed).onChange(value => this.result.completed = value));
+            .setName('Status')
+            .addDropdown(dropdown => {
+                for (const status of activeStatuses) {
+                    dropdown.addOption(status.symbol, `${status.name} [${status.symbol}]`);
+                }
+                dropdown.setValue(this.result.statusSymbol)
+                    .onChange(value => this.result.statusSymbol = value);
+            });
+    }
 
+    protected addPriorityField(contentEl: HTMLElement) {
         new Setting(contentEl)
             .setName('Priority')
             .addDropdown(dropdown => dropdown
@@ -281,70 +1852,477 @@ class TaskEditModal extends Modal {
                 .addOption('low', 'Low')
                 .setValue(this.result.priority)
                 .onChange(value => this.result.priority = value as any));
+    }
+
+    protected addDueDateField(contentEl: HTMLElement) {
+        new Setting(contentEl)
+            .setName('Due Date')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.result.dueDate || '')
+                    .onChange(value => this.result.dueDate = value || undefined);
+            });
+    }
+
+    protected addRepeatField(contentEl: HTMLElement) {
+        new Setting(contentEl)
+            .setName('Repeat')
+            .addText(text => text
+                .setPlaceholder('every week')
+                .setValue(this.result.recurrence || '')
+                .onChange(value => this.result.recurrence = value.trim() || undefined));
+    }
+
+    protected addSubmitButton(contentEl: HTMLElement, label: string) {
+        new Setting(contentEl)
+            .addButton(btn => btn.setButtonText(label).setCta().onClick(() => this.submit()));
+    }
+
+    protected submit() {
+        this.close();
+        this.onSubmit(this.result);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Quick capture: the edit modal trimmed down to description, priority and due date.
+// Enter submits; Shift+Enter adds a new line.
+class CaptureTaskModal extends TaskEditModal {
+    constructor(app: App, plugin: FastTodos, private destinationLabel: string, onSubmit: (result: TaskEditResult) => void) {
+        super(app, plugin.parseTaskLine('- [ ] ', 0, ''), onSubmit);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.containerEl.addClass('fast-todos-modal');
+        contentEl.createEl('h2', { text: 'Capture Task' });
+        contentEl.createDiv({ cls: 'fast-modal-destination', text: `Adding to ${this.destinationLabel}` });
+
+        const textarea = this.addDescriptionField(contentEl);
+        textarea.onkeydown = (e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                this.submit();
+            }
+        };
+        this.addPriorityField(contentEl);
+        this.addDueDateField(contentEl);
+        this.addSubmitButton(contentEl, 'Add');
+        textarea.focus();
+    }
+
+    // Enter and the Add button both end up here, so neither can add an empty task
+    protected submit() {
+        if (!this.result.description.trim()) return;
+        super.submit();
+    }
+}
+
+// Dry run for archiving: lists the tasks that would move, by note, before anything is written
+class ArchivePreviewModal extends Modal {
+    constructor(app: App, private plugin: FastTodos, private tasks: FastTask[]) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const { archivePath, archiveAfterDays } = this.plugin.settings;
+        this.containerEl.addClass('fast-todos-modal');
+        contentEl.createEl('h2', { text: 'Archive completed tasks' });
+        contentEl.createEl('p', {
+            text: `${this.tasks.length} task${this.tasks.length === 1 ? '' : 's'} completed more than ${archiveAfterDays} days ago will move to ${archivePath}, with their subtasks.`
+        });
+
+        const list = contentEl.createDiv({ cls: 'fast-todos-archive-preview' });
+        for (const [path, tasks] of groupByPath(this.tasks)) {
+            list.createEl('h4', { text: path.replace(/\.md$/, '') });
+            const ul = list.createEl('ul');
+            for (const task of tasks) {
+                const li = ul.createEl('li', { text: task.cleanText });
+                li.createSpan({ cls: 'fast-todos-completed-date', text: ` ✅ ${task.completedDate}` });
+                if (task.children.length > 0) li.createSpan({ cls: 'fast-todos-subtask-count', text: ` +${task.children.length} subtasks` });
+            }
+        }
 
         new Setting(contentEl)
-            .addButton(btn => btn.setButtonText('Save').setCta().onClick(() => {
+            .addButton(btn => btn.setButtonText('Cancel').onClick(() => this.close()))
+            .addButton(btn => btn.setButtonText('Archive').setCta().onClick(async () => {
                 this.close();
-                this.onSubmit(this.result);
+                const archived = await this.plugin.archiveTasks(this.tasks);
+                if (archived > 0) new Notice(`Fast Todos: archived ${archived} task${archived === 1 ? '' : 's'} to ${archivePath}.`);
             }));
     }
 
     onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Picks the format and destination for exporting a todos block's tasks
+class ExportModal extends Modal {
+    constructor(app: App, private plugin: FastTodos, private renderer: FastTodosRenderer) {
+        super(app);
+    }
+
+    onOpen() {
         const { contentEl } = this;
-        contentEl.empty();
+        this.containerEl.addClass('fast-todos-modal');
+        contentEl.createEl('h2', { text: 'Export tasks' });
+
+        let format: ExportFormat = 'csv';
+        let toClipboard = false;
+        // The file sits next to the note holding the block unless the user picks a path
+        const base = this.renderer.sourcePath ? `${this.renderer.sourcePath.replace(/\.md$/, '')} tasks` : 'Fast Todos tasks';
+        let path = `${base}.csv`;
+        let pathSetting: Setting;
+        let pathInput: TextComponent;
+
+        new Setting(contentEl)
+            .setName('Format')
+            .setDesc('iCalendar exports only tasks with a due, scheduled or completion date.')
+            .addDropdown(dropdown => dropdown
+                .addOption('csv', 'CSV')
+                .addOption('json', 'JSON')
+                .addOption('ics', 'iCalendar (.ics)')
+                .setValue(format)
+                .onChange(value => {
+                    format = value as ExportFormat;
+                    path = path.replace(/\.(csv|json|ics)$/, '') + `.${format}`;
+                    pathInput.setValue(path);
+                }));
+        new Setting(contentEl)
+            .setName('Destination')
+            .addDropdown(dropdown => dropdown
+                .addOption('file', 'File in the vault')
+                .addOption('clipboard', 'Clipboard')
+                .setValue('file')
+                .onChange(value => {
+                    toClipboard = value === 'clipboard';
+                    pathSetting.settingEl.toggle(!toClipboard);
+                }));
+        pathSetting = new Setting(contentEl)
+            .setName('File')
+            .addText(text => {
+                pathInput = text;
+                text.setValue(path).onChange(value => path = value.trim());
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn.setButtonText('Cancel').onClick(() => this.close()))
+            .addButton(btn => btn.setButtonText('Export').setCta().onClick(async () => {
+                if (toClipboard) {
+                    if (await this.plugin.exportResults(this.renderer, format, null)) this.close();
+                    return;
+                }
+                if (!path) {
+                    new Notice('Fast Todos: enter a file to export to.');
+                    return;
+                }
+                const target = path;
+                const write = async () => {
+                    if (await this.plugin.exportResults(this.renderer, format, target)) this.close();
+                };
+                // Notes are refused by exportResults itself, so only other files need confirming
+                const existing = this.app.vault.getAbstractFileByPath(normalizePath(target));
+                if (existing instanceof TFile && existing.extension !== 'md') {
+                    new ConfirmModal(this.app, 'Replace file', `${normalizePath(target)} already exists. Replace it with the export?`, 'Replace', () => { write(); }).open();
+                } else {
+                    await write();
+                }
+            }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Asks for one line of text, such as a tag or a note path for batch actions
+class TextPromptModal extends Modal {
+    constructor(app: App, private title: string, private placeholder: string, private onSubmit: (value: string) => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.containerEl.addClass('fast-todos-modal');
+        contentEl.createEl('h2', { text: this.title });
+
+        let value = '';
+        const submit = () => {
+            this.close();
+            this.onSubmit(value);
+        };
+        new Setting(contentEl).addText(text => {
+            text.setPlaceholder(this.placeholder).onChange(v => value = v);
+            text.inputEl.onkeydown = (e) => {
+                if (e.key === 'Enter') {
+                    e.preventDefault();
+                    submit();
+                }
+            };
+            text.inputEl.focus();
+        });
+        new Setting(contentEl).addButton(btn => btn.setButtonText('OK').setCta().onClick(submit));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Asks before a change that can't be undone
+class ConfirmModal extends Modal {
+    constructor(app: App, private title: string, private message: string, private confirmLabel: string, private onConfirm: () => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.containerEl.addClass('fast-todos-modal');
+        contentEl.createEl('h2', { text: this.title });
+        contentEl.createEl('p', { text: this.message });
+
+        new Setting(contentEl)
+            .addButton(btn => btn.setButtonText('Cancel').onClick(() => this.close()))
+            .addButton(btn => btn.setButtonText(this.confirmLabel).setWarning().onClick(() => {
+                this.close();
+                this.onConfirm();
+            }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Plugin-wide task index keyed by file path. Built once when the layout is ready,
+// then patched per file from metadataCache/vault events. Triggers 'changed' with the
+// affected path so renderers can refresh without rescanning the vault.
+class TaskIndex extends Events {
+    private tasksByPath: Map<string, FastTask[]> = new Map();
+    // Paths updated by vault events while `build` reads the vault, and the latest build
+    private changedDuringBuild: Set<string> | null = null;
+    private buildCount = 0;
+    private flatTasks: FastTask[] | null = null;
+    private tasksById: Map<string, FastTask> | null = null;
+    private resolveReady: () => void;
+    public ready: Promise<void>;
+
+    constructor(private app: App, private plugin: FastTodos) {
+        super();
+        this.ready = new Promise(resolve => this.resolveReady = resolve);
+    }
+
+    // The new index is built on the side and swapped in once complete, so blocks, exports
+    // and archiving never see a half-built one during a rebuild
+    async build() {
+        const build = ++this.buildCount;
+        const changed = new Set<string>();
+        this.changedDuringBuild = changed;
+
+        const next = new Map<string, FastTask[]>();
+        try {
+            for (const file of this.app.vault.getMarkdownFiles()) {
+                const cache = this.app.metadataCache.getFileCache(file);
+                if (!cache || !cache.listItems) continue;
+
+                const content = await this.app.vault.cachedRead(file);
+                const tasks = this.parseFile(file, content, cache);
+                if (tasks.length > 0) next.set(file.path, tasks);
+            }
+        } finally {
+            if (this.changedDuringBuild === changed) this.changedDuringBuild = null;
+        }
+        // A later rebuild supersedes this one
+        if (build !== this.buildCount) return;
+
+        // Files changed while building are newer in the live index than what was read
+        changed.forEach(path => {
+            const live = this.tasksByPath.get(path);
+            if (live) next.set(path, live);
+            else next.delete(path);
+        });
+        this.tasksByPath = next;
+        this.invalidate();
+        this.resolveReady();
+        this.trigger('changed', null);
+    }
+
+    updateFile(file: TFile, content: string, cache: CachedMetadata | null) {
+        if (file.extension !== 'md') return;
+        this.setFileTasks(file.path, this.parseFile(file, content, cache));
+        this.invalidate();
+        this.trigger('changed', file.path);
+    }
+
+    renameFile(file: TFile, oldPath: string) {
+        const tasks = this.tasksByPath.get(oldPath);
+        if (!tasks) return;
+
+        this.tasksByPath.delete(oldPath);
+        this.changedDuringBuild?.add(oldPath).add(file.path);
+        for (const task of tasks) {
+            task.id = task.id.replace(oldPath, file.path);
+            task.path = file.path;
+        }
+        if (file.extension === 'md') this.tasksByPath.set(file.path, tasks);
+        this.invalidate();
+        this.trigger('changed', file.path);
+    }
+
+    removeFile(path: string) {
+        this.changedDuringBuild?.add(path);
+        if (!this.tasksByPath.delete(path)) return;
+        this.invalidate();
+        this.trigger('changed', path);
+    }
+
+    private invalidate() {
+        this.flatTasks = null;
+        this.tasksById = null;
+    }
+
+    getTasks(): FastTask[] {
+        if (!this.flatTasks) {
+            this.flatTasks = [];
+            this.tasksByPath.forEach(tasks => this.flatTasks!.push(...tasks));
+        }
+        return this.flatTasks;
+    }
+
+    getFileTasks(path: string): FastTask[] {
+        return this.tasksByPath.get(path) || [];
+    }
+
+    findTask(id: string): FastTask | undefined {
+        if (!this.tasksById) {
+            this.tasksById = new Map();
+            for (const task of this.getTasks()) this.tasksById.set(task.id, task);
+        }
+        return this.tasksById.get(id);
+    }
+
+    private setFileTasks(path: string, tasks: FastTask[]) {
+        this.changedDuringBuild?.add(path);
+        if (tasks.length > 0) this.tasksByPath.set(path, tasks);
+        else this.tasksByPath.delete(path);
+    }
+
+    private parseFile(file: TFile, content: string, cache: CachedMetadata | null): FastTask[] {
+        if (!cache || !cache.listItems) return [];
+
+        const lines = content.split('\n');
+        const tasks: FastTask[] = [];
+        const seen: Record<string, number> = {};
+        const parentLineOf = new Map<number, number>();
+        const taskAtLine = new Map<number, FastTask>();
+        const headings = cache.headings || [];
+        for (const item of cache.listItems) {
+            parentLineOf.set(item.position.start.line, item.parent);
+            if (item.task) {
+                const lineText = lines[item.position.start.line];
+                if (!lineText) continue;
+
+                if (!matchTaskLine(lineText)) continue;
+
+                const task = this.plugin.parseTaskLine(lineText, item.position.start.line, file.path);
+                for (const heading of headings) {
+                    if (heading.position.start.line > task.line) break;
+                    task.heading = heading.heading;
+                }
+
+                // Identical lines in one file are told apart by their order
+                const occurrence = seen[task.fingerprint] || 0;
+                seen[task.fingerprint] = occurrence + 1;
+                task.occurrence = occurrence;
+                task.id = buildTaskId(file.path, task.fingerprint, occurrence);
+                tasks.push(task);
+                taskAtLine.set(task.line, task);
+            }
+        }
+
+        // Link each task to its nearest task ancestor, skipping plain bullets in between.
+        // A negative `parent` marks a top-level list item.
+        for (const task of tasks) {
+            let parentLine = parentLineOf.get(task.line) ?? -1;
+            while (parentLine >= 0) {
+                const parent = taskAtLine.get(parentLine);
+                if (parent) {
+                    task.parent = parent;
+                    parent.children.push(task);
+                    break;
+                }
+                parentLine = parentLineOf.get(parentLine) ?? -1;
+            }
+        }
+        return tasks;
     }
 }
 
 class FastTodosRenderer extends MarkdownRenderChild {
-    private static taskCache: FastTask[] = [];
-    private static lastScanTime: number = 0;
     private lastRenderedHash: string = "";
-    private completionRegex = /\[(?:completed|completion):\s*[^\]]*\]/gi;
     private refreshTimer: NodeJS.Timeout | null = null;
     private activeCountdowns: Set<string> = new Set();
+    private collapsedTasks: Set<string> = new Set();
+    // Card being dragged on a board and the column it came from
+    private dragging: { task: FastTask, from: TaskGroup } | null = null;
+    // Months or weeks away from the current one shown by calendar and agenda layouts
+    private periodOffset = 0;
+    // Tasks selected for batch actions, and where the next shift-click range starts
+    private selectedTasks: Set<string> = new Set();
+    private selectionAnchor: string | null = null;
+    // Owns what Markdown task text rendered in the current pass; replaced on every render
+    private textComponent: Component | null = null;
+    // Additional filter applied on top of the query, used by the dashboard search box
+    public extraFilter: TaskFilter | null = null;
 
     constructor(public containerEl: HTMLElement, public app: App, public source: string, public sourcePath: string, public plugin: FastTodos) {
         super(containerEl);
     }
 
-    static clearCache() {
-        FastTodosRenderer.lastScanTime = 0;
-        FastTodosRenderer.taskCache = [];
-    }
-
     async onload() {
         this.render();
 
+        // Known to the plugin so the export command can find the block the user is working in
+        this.plugin.renderers.add(this);
+        this.registerDomEvent(this.containerEl, 'pointerdown', () => this.plugin.activeRenderer = this);
+
         // Listen for internal BROADCAST status changes
-        this.registerEvent((this.app.workspace as any).on('fast-todos:status-change', (taskId: string, isDone: boolean) => {
-            const itemEl = this.containerEl.querySelector(`[data-task-id="${taskId}"]`) as HTMLElement;
-            const taskInView = FastTodosRenderer.taskCache.find(t => `${t.path}:${t.line}` === taskId);
-
-            if (itemEl && taskInView) {
-                if (isDone) {
-                    // SILENT UPDATE: Mark as done but NO countdown for Markdown actions
-                    taskInView.completed = true;
-                    this.applyVisualDone(itemEl, true);
-                } else {
-                    // Uncheck: remove strikes and countdowns
-                    taskInView.completed = false;
+        this.registerEvent((this.app.workspace as any).on('fast-todos:status-change', (taskId: string, symbol: string) => {
+            const itemEls = this.containerEl.querySelectorAll(`[data-task-id="${taskId}"]`);
+            const taskInView = this.plugin.taskIndex.findTask(taskId);
+
+            // A task shows up once per tag group it falls into
+            for (let i = 0; i < itemEls.length && taskInView; i++) {
+                const itemEl = itemEls[i] as HTMLElement;
+                // SILENT UPDATE: apply the new status but NO countdown for Markdown actions
+                const status = statusForSymbol(symbol);
+                taskInView.status = status;
+                this.applyVisualStatus(itemEl, status);
+
+                if (!isClosed(status)) {
+                    // Reopened: remove countdowns
                     this.activeCountdowns.delete(taskId);
-                    this.applyVisualDone(itemEl, false);
                     const countdown = itemEl.querySelector('.fast-todos-countdown');
                     if (countdown) countdown.remove();
                 }
             }
         }));
 
-        this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+        this.registerEvent(this.plugin.taskIndex.on('changed', () => {
             if (this.activeCountdowns.size > 0) return;
 
             // If we just updated internally, wait a bit longer to let the filesystem settle
-            const delay = Date.now() - this.plugin.lastInternalUpdate < 3000 ? 1000 : 500;
+            const baseDelay = this.plugin.settings.refreshDelay;
+            const delay = Date.now() - this.plugin.lastInternalUpdate < 3000 ? baseDelay * 2 : baseDelay;
 
             if (this.refreshTimer) clearTimeout(this.refreshTimer);
             this.refreshTimer = setTimeout(() => {
-                FastTodosRenderer.clearCache();
                 this.render();
             }, delay);
         }));
@@ -353,66 +2331,70 @@ class FastTodosRenderer extends MarkdownRenderChild {
         this.registerEvent((this.app.workspace as any).on('fast-todos:refresh-all', () => {
             if (this.refreshTimer) clearTimeout(this.refreshTimer);
             this.refreshTimer = setTimeout(() => {
-                FastTodosRenderer.clearCache();
                 this.lastRenderedHash = ""; // Force re-render
                 this.render();
             }, 400); // Wait for Obsidian metadata cache to catch up
         }));
     }
 
-    private applyVisualDone(itemEl: HTMLElement, isDone: boolean) {
+    onunload() {
+        this.plugin.renderers.delete(this);
+        if (this.plugin.activeRenderer === this) this.plugin.activeRenderer = null;
+    }
+
+    private applyVisualStatus(itemEl: HTMLElement, status: TaskStatus) {
         const checkbox = itemEl.querySelector('.fast-todos-checkbox') as HTMLInputElement;
         const textSpan = itemEl.querySelector('.fast-todos-text') as HTMLElement;
+        const isDone = isClosed(status);
+        itemEl.setAttribute('data-status', status.type);
         if (checkbox) {
             checkbox.checked = isDone;
             if (isDone) checkbox.setAttribute('checked', 'checked');
             else checkbox.removeAttribute('checked');
+            checkbox.title = status.name;
         }
         if (textSpan) {
-            if (isDone) textSpan.classList.add('fast-todos-completed');
-            else textSpan.classList.remove('fast-todos-completed');
+            textSpan.classList.toggle('fast-todos-completed', status.type === 'done');
+            textSpan.classList.toggle('fast-todos-cancelled', status.type === 'cancelled');
         }
     }
 
     async render() {
         if (!this.containerEl) return;
-        const tasks = await this.getTasks();
         const config = this.parseConfig(this.source);
-        const today = moment().format('YYYY-MM-DD');
 
-        // Apply all filters (Lines are AND-ed together)
-        let filteredTasks = tasks.filter(t => {
-            return config.filters.every(filter => filter(t));
-        });
+        // A broken query would silently show the wrong tasks, so show the problems instead
+        if (config.errors.length > 0) {
+            const errorHash = JSON.stringify(config.errors);
+            if (errorHash === this.lastRenderedHash) return;
+            this.lastRenderedHash = errorHash;
 
-        // Handle Sorting
-        if (config.sortBy) {
-            filteredTasks.sort((a, b) => {
-                if (config.sortBy === 'priority') {
-                    const weight: any = { high: 3, normal: 2, low: 1 };
-                    const wa = weight[a.priority] || 2;
-                    const wb = weight[b.priority] || 2;
-                    return wb - wa;
-                }
-                if (config.sortBy === 'path') return (a.path || "").localeCompare(b.path || "");
-                if (config.sortBy === 'description' || config.sortBy === 'alphabet') return (a.cleanText || "").localeCompare(b.cleanText || "");
-                if (config.sortBy === 'date') return (a.completedDate || "").localeCompare(b.completedDate || "");
-                return 0;
-            });
+            this.containerEl.empty();
+            this.containerEl.addClass('fast-todos-container');
+            const errorEl = this.containerEl.createDiv({ cls: 'fast-todos-error' });
+            errorEl.createDiv({ text: 'Fast Todos query error', cls: 'fast-todos-error-title' });
+            for (const error of config.errors) {
+                errorEl.createDiv({ text: error });
+            }
+            return;
         }
 
-        // Handle Limit
-        if (config.limit !== undefined) {
-            filteredTasks = filteredTasks.slice(0, config.limit);
-        }
+        const filteredTasks = await this.getResults(config);
 
         // Create a hash to avoid unnecessary re-renders. Include priority.
         const currentHash = JSON.stringify(filteredTasks.map(t => ({
             p: t.path,
             l: t.line,
-            c: t.completed,
+            c: t.status.symbol,
             t: t.cleanText,
-            pr: t.priority
+            pr: t.priority,
+            d: t.dueDate,
+            sd: t.scheduledDate,
+            cd: t.completedDate,
+            xd: t.cancelledDate,
+            h: t.heading,
+            g: config.groupBy.map(field => this.groupKeys(t, field).map(k => k.name).join(',')),
+            sub: t.children.map(c => c.status.symbol).join('')
         })));
 
         if (currentHash === this.lastRenderedHash) return;
@@ -421,133 +2403,522 @@ class FastTodosRenderer extends MarkdownRenderChild {
         try {
             this.containerEl.empty();
             this.containerEl.addClass('fast-todos-container');
+            if (this.textComponent) this.removeChild(this.textComponent);
+            this.textComponent = this.addChild(new Component());
 
-            if (filteredTasks.length === 0) {
+            if (filteredTasks.length === 0 && config.layout === 'list') {
                 this.containerEl.createDiv({ text: 'No matching tasks.', cls: 'fast-todos-empty' });
+                if (config.addTo) this.renderAddInput(config.addTo);
                 return;
             }
 
-            const groups = this.groupTasks(filteredTasks, config.groupBy);
-            for (const [groupName, fileTasks] of Object.entries(groups)) {
-                if (!fileTasks || fileTasks.length === 0) continue;
-
-                const groupWrap = this.containerEl.createDiv({ cls: 'fast-todos-group' });
-                const header = groupWrap.createDiv({ cls: 'fast-todos-header' });
-
-                const firstTask = fileTasks[0];
-                const possibleFile = this.app.vault.getAbstractFileByPath(firstTask.path) as TFile;
-                const link = header.createEl('a', { text: groupName, cls: 'fast-todos-file-link' });
-                if (possibleFile && groupName.includes(possibleFile.basename)) {
-                    link.onclick = () => this.app.workspace.getLeaf(false).openFile(possibleFile);
+            // Matching subtasks render inside their nearest matching ancestor instead of as rows
+            const visible = new Set(filteredTasks);
+            const nestedUnder = new Map<FastTask, FastTask[]>();
+            const roots: FastTask[] = [];
+            for (const task of filteredTasks) {
+                let ancestor = task.parent;
+                while (ancestor && !visible.has(ancestor)) ancestor = ancestor.parent;
+                if (ancestor) {
+                    if (!nestedUnder.has(ancestor)) nestedUnder.set(ancestor, []);
+                    nestedUnder.get(ancestor)!.push(task);
+                } else {
+                    roots.push(task);
                 }
+            }
 
-                const list = groupWrap.createDiv({ cls: 'fast-todos-list' });
-                for (const task of fileTasks) {
-                    const file = this.app.vault.getAbstractFileByPath(task.path) as TFile;
-                    if (file) {
-                        this.renderTask(list, task, file);
-                    }
-                }
+            if (config.layout === 'board') {
+                this.renderBoard(roots, config.groupBy[0] || 'status', nestedUnder);
+            } else if (config.layout !== 'list') {
+                // Every matching task has its own date, so subtasks aren't nested here
+                this.renderCalendar(filteredTasks, config.layout);
+            } else {
+                this.renderGroups(this.containerEl, this.groupTasks(roots, config.groupBy), nestedUnder);
             }
+
+            if (config.addTo) this.renderAddInput(config.addTo);
+            this.containerEl.createDiv({ cls: 'fast-todos-export', text: 'Export' }).onclick = () => new ExportModal(this.app, this.plugin, this).open();
+            this.renderBatchBar();
         } catch (e) {
             console.error("Fast Todos Render Error:", e);
             this.containerEl.createDiv({ text: "Error rendering tasks. Check console.", cls: "fast-todos-empty" });
         }
     }
 
-    async getTasks(): Promise<FastTask[]> {
-        const now = Date.now();
-        if (FastTodosRenderer.taskCache.length > 0 && (now - FastTodosRenderer.lastScanTime < 10000)) {
-            return FastTodosRenderer.taskCache;
+    // The tasks a block shows, filtered, sorted and limited as its query says, before
+    // grouping and layout. Exports read this too, so they always match the block.
+    async getResults(config = this.parseConfig(this.source)): Promise<FastTask[]> {
+        const tasks = await this.getTasks();
+
+        // Apply all filters (Lines are AND-ed together)
+        let filteredTasks = tasks.filter(t => {
+            return config.filters.every(filter => filter(t));
+        });
+        if (this.extraFilter) {
+            filteredTasks = filteredTasks.filter(this.extraFilter);
+        }
+        if (!config.showSubtasks) {
+            filteredTasks = filteredTasks.filter(t => !t.parent);
         }
 
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const tasks: FastTask[] = [];
+        // Sort keys apply in order; path and line break the remaining ties so the
+        // order doesn't depend on how the index happened to be built
+        filteredTasks.sort((a, b) => {
+            for (const { key, reverse } of config.sortBy) {
+                const result = compareTasks(a, b, key);
+                if (result !== 0) return reverse ? -result : result;
+            }
+            return compareTasks(a, b, 'path') || a.line - b.line;
+        });
 
-        for (const file of allFiles) {
-            const cache = this.app.metadataCache.getFileCache(file);
-            if (!cache || !cache.listItems) continue;
+        // Handle Limit
+        if (config.limit !== undefined) {
+            filteredTasks = filteredTasks.slice(0, config.limit);
+        }
+        return filteredTasks;
+    }
 
-            const content = await this.app.vault.cachedRead(file);
-            const lines = content.split('\n');
+    private renderGroups(parent: HTMLElement, groups: TaskGroup[], nestedUnder: Map<FastTask, FastTask[]>) {
+        for (const group of groups) {
+            const groupWrap = parent.createDiv({ cls: 'fast-todos-group' });
+            const header = groupWrap.createDiv({ cls: 'fast-todos-header' });
 
-            for (const item of cache.listItems) {
-                if (item.task) {
-                    const lineText = lines[item.position.start.line];
-                    if (!lineText) continue;
+            if (group.file) {
+                const file = group.file;
+                const link = header.createEl('a', { text: group.name, cls: 'fast-todos-file-link' });
+                link.onclick = () => this.app.workspace.getLeaf(false).openFile(file);
+            } else {
+                header.createDiv({ text: group.name, cls: 'fast-todos-file-link fast-todos-group-name' });
+            }
+            header.createSpan({ cls: 'fast-todos-select-all', text: 'Select all' }).onclick = () => {
+                groupWrap.querySelectorAll('.fast-todos-item').forEach(el => this.selectedTasks.add(el.getAttribute('data-task-id') || ''));
+                this.updateSelection();
+            };
 
-                    const taskStatusMatch = lineText.match(/\[([ xX])\]/);
-                    const isCompleted = taskStatusMatch ? (taskStatusMatch[1].toLowerCase() === 'x') : (item.task === 'x' || item.task === 'X');
+            if (group.subgroups.length > 0) {
+                this.renderGroups(groupWrap.createDiv({ cls: 'fast-todos-subgroups' }), group.subgroups, nestedUnder);
+                continue;
+            }
 
-                    tasks.push(this.parseTaskLine(lineText, item.position.start.line, file.path, isCompleted));
+            const list = groupWrap.createDiv({ cls: 'fast-todos-list' });
+            for (const task of group.tasks) {
+                const file = this.app.vault.getAbstractFileByPath(task.path) as TFile;
+                if (file) {
+                    this.renderTaskTree(list, task, file, nestedUnder);
                 }
             }
         }
+    }
 
-        FastTodosRenderer.taskCache = tasks;
-        FastTodosRenderer.lastScanTime = now;
-        return tasks;
+    // `layout board`: the groups of one field become columns. Status and priority boards show
+    // every column, so there is always somewhere to drop a card.
+    private renderBoard(tasks: FastTask[], field: string, nestedUnder: Map<FastTask, FastTask[]>) {
+        const groups = this.groupTasks(tasks, [field]);
+        const addColumn = (key: string, name: string, sortKey: string) => {
+            if (!groups.some(g => g.key === key)) groups.push({ key, name, sortKey, tasks: [], subgroups: [] });
+        };
+        if (field === 'status') {
+            activeStatuses.forEach((status, i) => addColumn(status.symbol, status.name, String(1000 + i)));
+        } else if (field === 'priority') {
+            addColumn('high', 'High priority', '0');
+            addColumn('normal', 'Normal priority', '1');
+            addColumn('low', 'Low priority', '2');
+        }
+        groups.sort((a, b) => a.sortKey < b.sortKey ? -1 : a.sortKey > b.sortKey ? 1 : 0);
+
+        const board = this.containerEl.createDiv({ cls: 'fast-todos-board' });
+        for (const group of groups) {
+            const column = board.createDiv({ cls: 'fast-todos-board-column' });
+            const header = column.createDiv({ cls: 'fast-todos-header' });
+            if (group.file) {
+                const file = group.file;
+                header.createEl('a', { text: group.name, cls: 'fast-todos-file-link' }).onclick = () => this.app.workspace.getLeaf(false).openFile(file);
+            } else {
+                header.createDiv({ text: group.name, cls: 'fast-todos-file-link fast-todos-group-name' });
+            }
+            header.createSpan({ cls: 'fast-todos-board-count', text: String(group.tasks.length) });
+
+            const cards = column.createDiv({ cls: 'fast-todos-list fast-todos-board-cards' });
+            for (const task of group.tasks) {
+                const file = this.app.vault.getAbstractFileByPath(task.path) as TFile;
+                if (!file) continue;
+
+                const card = cards.createDiv({ cls: 'fast-todos-board-card' });
+                card.draggable = true;
+                card.ondragstart = (e) => {
+                    this.dragging = { task, from: group };
+                    e.dataTransfer?.setData('text/plain', task.id);
+                    card.addClass('is-dragging');
+                };
+                card.ondragend = () => {
+                    this.dragging = null;
+                    card.removeClass('is-dragging');
+                };
+                this.renderTaskTree(card, task, file, nestedUnder);
+            }
+
+            column.ondragover = (e) => {
+                if (!this.dragging) return;
+                e.preventDefault();
+                column.addClass('is-drop-target');
+            };
+            column.ondragleave = (e) => {
+                if (!column.contains(e.relatedTarget as Node)) column.removeClass('is-drop-target');
+            };
+            column.ondrop = (e) => {
+                e.preventDefault();
+                column.removeClass('is-drop-target');
+                const dragging = this.dragging;
+                this.dragging = null;
+                if (!dragging || dragging.from === group) return;
+
+                const card = board.querySelector('.fast-todos-board-card.is-dragging');
+                if (card) cards.appendChild(card);
+                this.moveCard(dragging.task, field, dragging.from, group);
+            };
+        }
+    }
+
+    // `layout calendar` (a month, or a week with `calendar week`) and `layout agenda` (a week,
+    // day by day). Finished tasks sit on their completion date, open ones on their due or
+    // scheduled date; tasks without one are left out.
+    private renderCalendar(tasks: FastTask[], layout: string) {
+        const today = moment().format('YYYY-MM-DD');
+        const byDate = new Map<string, FastTask[]>();
+        let undated = 0;
+        for (const task of tasks) {
+            const raw = isClosed(task.status) ? task.completedDate || task.cancelledDate : task.dueDate || task.scheduledDate;
+            // Cells are keyed by the parsed day, so a date written with a time still lands on it
+            const parsed = raw ? moment(raw, 'YYYY-MM-DD') : null;
+            if (!parsed || !parsed.isValid()) {
+                undated++;
+                continue;
+            }
+            const date = parsed.format('YYYY-MM-DD');
+            if (!byDate.has(date)) byDate.set(date, []);
+            byDate.get(date)!.push(task);
+        }
+
+        const unit = layout === 'calendar week' || layout === 'agenda' ? 'isoWeek' : 'month';
+        const start = moment().startOf(unit).add(this.periodOffset, unit === 'month' ? 'month' : 'week');
+        const end = start.clone().endOf(unit);
+
+        const nav = this.containerEl.createDiv({ cls: 'fast-todos-calendar-nav' });
+        nav.createEl('button', { text: '‹', attr: { 'aria-label': 'Previous' } }).onclick = () => this.shiftPeriod(-1);
+        nav.createEl('button', { text: 'Today' }).onclick = () => this.shiftPeriod(-this.periodOffset);
+        nav.createEl('button', { text: '›', attr: { 'aria-label': 'Next' } }).onclick = () => this.shiftPeriod(1);
+        nav.createSpan({
+            cls: 'fast-todos-calendar-title',
+            text: unit === 'month' ? start.format('MMMM YYYY') : `${start.format('MMM D')} – ${end.format('MMM D, YYYY')}`
+        });
+        if (undated > 0) nav.createSpan({ cls: 'fast-todos-calendar-undated', text: `${undated} without a date` });
+
+        if (layout === 'agenda') {
+            for (const day = start.clone(); !day.isAfter(end, 'day'); day.add(1, 'day')) {
+                const date = day.format('YYYY-MM-DD');
+                const dayEl = this.containerEl.createDiv({ cls: 'fast-todos-group fast-todos-agenda-day' });
+                dayEl.toggleClass('is-today', date === today);
+                dayEl.createDiv({ cls: 'fast-todos-file-link fast-todos-group-name', text: day.format('dddd, MMM D') });
+
+                const list = dayEl.createDiv({ cls: 'fast-todos-list' });
+                const dayTasks = byDate.get(date) || [];
+                if (dayTasks.length === 0) list.createDiv({ cls: 'fast-todos-empty', text: 'Nothing' });
+                for (const task of dayTasks) {
+                    const file = this.app.vault.getAbstractFileByPath(task.path) as TFile;
+                    if (file) this.renderTask(list, task, file);
+                }
+            }
+            return;
+        }
+
+        const grid = this.containerEl.createDiv({ cls: 'fast-todos-calendar' });
+        const gridStart = start.clone().startOf('isoWeek');
+        for (let i = 0; i < 7; i++) {
+            grid.createDiv({ cls: 'fast-todos-calendar-weekday', text: gridStart.clone().add(i, 'day').format('ddd') });
+        }
+        for (const day = gridStart.clone(); !day.isAfter(end.clone().endOf('isoWeek'), 'day'); day.add(1, 'day')) {
+            const date = day.format('YYYY-MM-DD');
+            const cell = grid.createDiv({ cls: 'fast-todos-calendar-day' });
+            cell.toggleClass('is-today', date === today);
+            cell.toggleClass('is-outside', day.isBefore(start, 'day') || day.isAfter(end, 'day'));
+            cell.createDiv({ cls: 'fast-todos-calendar-date', text: day.format('D') });
+
+            for (const task of byDate.get(date) || []) {
+                const entry = cell.createDiv({ cls: 'fast-todos-calendar-task', text: task.cleanText });
+                entry.setAttr('data-status', task.status.type);
+                entry.setAttr('aria-label', task.path);
+                entry.onclick = () => {
+                    const file = this.app.vault.getAbstractFileByPath(task.path);
+                    if (file instanceof TFile) this.app.workspace.getLeaf(false).openFile(file, { eState: { line: task.line } });
+                };
+            }
+        }
+    }
+
+    private shiftPeriod(by: number) {
+        this.periodOffset += by;
+        this.lastRenderedHash = "";
+        this.render();
     }
 
-    parseTaskLine(line: string, lineNum: number, path: string, isCompleted: boolean): FastTask {
-        const taskMatch = line.match(/^(\s*[-*+\d\.\s]*\s*\[[ xX]\])(.*)/);
-        const rawContent = taskMatch ? taskMatch[2] : line;
+    // Rewrites a dropped card's task so it belongs in the `to` column
+    private async moveCard(task: FastTask, field: string, from: TaskGroup, to: TaskGroup) {
+        const file = this.app.vault.getAbstractFileByPath(task.path);
+        if (!(file instanceof TFile)) return;
+
+        const previous = task.status;
+        const cached = this.plugin.taskIndex.findTask(task.id);
+        let written = false;
+        try {
+            if (field === 'status') {
+                const status = statusForSymbol(to.key);
+                task.status = status;
+                if (cached) cached.status = status;
+
+                const item = this.containerEl.querySelector(`[data-task-id="${task.id}"]`) as HTMLElement | null;
+                if (item && isClosed(status)) this.startCountdown(task.id, item, task);
+                else if (item) this.applyVisualStatus(item, status);
+                written = !!await this.toggleTask(task);
+            } else if (field === 'priority') {
+                const priority = to.key as FastTask['priority'];
+                written = !!await this.rewriteTask(task, line => setLinePriority(line, priority), `Set "${shortTaskText(task)}" to ${to.name.toLowerCase()}`);
+            } else if (field === 'tag') {
+                written = !!await this.rewriteTask(task, line => replaceTag(line, from.key ? from.name : null, to.key ? to.name : null), `Moved "${shortTaskText(task)}" to ${to.name}`);
+            } else if ((field === 'filename' || field === 'path') && to.file) {
+                // Moves between notes aren't kept in the undo history
+                written = await this.plugin.moveTasksToFile([task], to.file.path);
+            } else {
+                new Notice(`Fast Todos: cards can't be moved between "${field}" columns.`);
+            }
+        } catch (e) {
+            console.error("Fast Todos: moving card failed:", e);
+            new Notice('Fast Todos: could not move the task. Check console.');
+        }
 
-        const completedMatch = rawContent.match(/\[(completed|completion):+\s*([^\]]+)\]/i);
-        const priorityMatch = rawContent.match(/\[priority:+\s*(high|normal|low)\]/i);
+        // Roll back the optimistic status so the card goes back to its column
+        if (!written) {
+            task.status = previous;
+            if (cached) cached.status = previous;
+            this.activeCountdowns.delete(task.id);
+        }
+        this.lastRenderedHash = "";
+        if (!written) this.render();
+    }
 
-        let displayDescription = rawContent.replace(/\[(created|completed|completion|due|priority):+[^\]]+\]/gi, '').trim();
+    // Inline "add task" row for the `add to <path>` directive
+    private renderAddInput(path: string) {
+        const row = this.containerEl.createDiv({ cls: 'fast-todos-add' });
+        const input = row.createEl('input', { type: 'text', placeholder: `Add a task to ${path}...`, cls: 'fast-todos-add-input' });
+        input.onkeydown = async (e) => {
+            if (e.key !== 'Enter' || !input.value.trim()) return;
+            e.preventDefault();
 
-        return {
-            text: line,
-            cleanText: displayDescription || "(No Description)",
-            completed: isCompleted,
-            line: lineNum,
-            path,
-            completedDate: completedMatch ? completedMatch[2] : undefined,
-            priority: priorityMatch ? priorityMatch[1].toLowerCase() as any : 'normal'
+            const text = input.value.trim();
+            input.disabled = true;
+            if (await this.plugin.appendTaskLine(path, `- [${statusForType('todo').symbol}] ${text}`)) {
+                input.value = '';
+            }
+            input.disabled = false;
+            input.focus();
         };
     }
 
-    evaluateAtom(atom: string, task: FastTask): boolean {
+    // Re-renders even if the visible tasks look unchanged, e.g. after `source` was replaced
+    refresh() {
+        this.lastRenderedHash = "";
+        this.render();
+    }
+
+    async getTasks(): Promise<FastTask[]> {
+        await this.plugin.taskIndex.ready;
+        return this.plugin.taskIndex.getTasks();
+    }
+
+    compileAtom(atom: string): TaskFilter {
         const low = atom.toLowerCase().trim();
         const today = moment().format('YYYY-MM-DD');
 
         if (low === 'not done') {
-            return !task.completed || this.activeCountdowns.has(`${task.path}:${task.line}`);
+            return task => !isClosed(task.status) || this.activeCountdowns.has(task.id);
         }
         if (low === 'done' || low === 'is done') {
-            return task.completed;
+            return task => isClosed(task.status);
+        }
+        if (low === 'no done date') {
+            return task => !task.completedDate;
+        }
+        if (low === 'has done date') {
+            return task => !!task.completedDate;
+        }
+        if (low.startsWith('done ')) {
+            const arg = low.replace('done ', '').trim();
+            const doneWhen = (test: (done: string) => boolean): TaskFilter =>
+                task => task.status.type === 'done' && !!task.completedDate && test(task.completedDate);
+            const date = (value: string) => {
+                const d = resolveDate(value);
+                if (!d) throw new QueryError(`Invalid date "${value.trim()}" in "${atom}"`);
+                return d;
+            };
+
+            if (arg.startsWith('before ')) {
+                const d = date(arg.replace('before ', ''));
+                return doneWhen(done => done < d);
+            }
+            if (arg.startsWith('after ')) {
+                const d = date(arg.replace('after ', ''));
+                return doneWhen(done => done > d);
+            }
+            const between = arg.match(/^between (.+) and (.+)$/);
+            if (between) {
+                const [start, end] = [date(between[1]), date(between[2])].sort();
+                return doneWhen(done => done >= start && done <= end);
+            }
+            const range = resolveDateRange(arg.replace(/^on /, ''));
+            if (!range) throw new QueryError(`Invalid date "${arg.replace(/^on /, '')}" in "${atom}"`);
+            return doneWhen(done => done >= range[0] && done <= range[1]);
+        }
+        if (low === 'parent not done') {
+            return task => !task.parent || !isClosed(task.parent.status);
+        }
+        if (low.startsWith('status is not ') || low.startsWith('status is ')) {
+            const negate = low.startsWith('status is not ');
+            const name = low.replace(negate ? 'status is not ' : 'status is ', '').trim();
+            // Match either the configured name or the built-in type ("in progress" for in-progress)
+            const matchesName = (status: TaskStatus) => status.name.toLowerCase() === name || status.type.replace('-', ' ') === name;
+            if (!activeStatuses.some(matchesName)) throw new QueryError(`Unknown status "${name}" in "${atom}"`);
+            return task => matchesName(task.status) !== negate;
+        }
+        if (low === 'has due date') {
+            return task => !!task.dueDate;
         }
-        if (low === 'done today') {
-            return task.completed && task.completedDate === today;
+        if (low === 'no due date') {
+            return task => !task.dueDate;
+        }
+        if (low === 'overdue') {
+            return task => !isClosed(task.status) && !!task.dueDate && task.dueDate < today;
+        }
+        if (low.startsWith('due ')) {
+            const arg = low.replace('due ', '').trim();
+            const compare = (value: string, test: (due: string, d: string) => boolean): TaskFilter => {
+                const d = resolveDate(value);
+                if (!d) throw new QueryError(`Invalid date "${value.trim()}" in "${atom}"`);
+                return task => !!task.dueDate && test(task.dueDate, d);
+            };
+            if (arg.startsWith('before ')) return compare(arg.replace('before ', ''), (due, d) => due < d);
+            if (arg.startsWith('after ')) return compare(arg.replace('after ', ''), (due, d) => due > d);
+
+            const range = resolveDateRange(arg.replace(/^on /, ''));
+            if (!range) throw new QueryError(`Invalid date "${arg.replace(/^on /, '')}" in "${atom}"`);
+            return task => !!task.dueDate && task.dueDate >= range[0] && task.dueDate <= range[1];
         }
         if (low.startsWith('path includes ')) {
             const p = low.replace('path includes ', '').trim();
-            return task.path.toLowerCase().includes(p);
+            return task => task.path.toLowerCase().includes(p);
+        }
+        if (low.startsWith('path does not include ')) {
+            const p = low.replace('path does not include ', '').trim();
+            return task => !task.path.toLowerCase().includes(p);
+        }
+        if (low.startsWith('folder is ')) {
+            const folder = low.replace('folder is ', '').trim().replace(/^\/+|\/+$/g, '');
+            return task => {
+                const slash = task.path.lastIndexOf('/');
+                return (slash === -1 ? '' : task.path.slice(0, slash).toLowerCase()) === folder;
+            };
+        }
+        if (low.startsWith('filename is ')) {
+            const name = low.replace('filename is ', '').trim().replace(/\.md$/, '');
+            return task => (task.path.split('/').pop() || '').toLowerCase().replace(/\.md$/, '') === name;
+        }
+        if (low.startsWith('description includes ')) {
+            const d = low.replace('description includes ', '').trim();
+            return task => task.cleanText.toLowerCase().includes(d);
+        }
+        if (low.startsWith('description does not include ')) {
+            const d = low.replace('description does not include ', '').trim();
+            return task => !task.cleanText.toLowerCase().includes(d);
+        }
+        if (low.startsWith('description regex matches ')) {
+            // Keep the pattern's case; the flags decide whether it matters
+            const literal = atom.trim().slice('description regex matches '.length).trim();
+            const match = literal.match(/^\/(.*)\/([a-z]*)$/i);
+            if (!match) throw new QueryError(`Expected /pattern/ in "${atom}"`);
+            let regex: RegExp;
+            try {
+                regex = new RegExp(match[1], match[2].replace('g', ''));
+            } catch (e) {
+                throw new QueryError(`Invalid regular expression ${literal}`);
+            }
+            return task => regex.test(task.cleanText);
+        }
+        if (low.startsWith('heading includes ')) {
+            const h = low.replace('heading includes ', '').trim();
+            return task => !!task.heading && task.heading.toLowerCase().includes(h);
         }
+        // Tag filters look at the task's parsed tags, not at the rest of its text
         if (low.startsWith('tag includes ')) {
             const t = low.replace('tag includes ', '').trim();
-            return task.text.toLowerCase().includes(t);
+            return task => task.tags.some(tag => tag.toLowerCase().includes(t));
+        }
+        if (low.startsWith('tag does not include ')) {
+            const t = low.replace('tag does not include ', '').trim();
+            return task => !task.tags.some(tag => tag.toLowerCase().includes(t));
+        }
+        if (low.startsWith('tag is ')) {
+            // `#area` also matches nested tags such as `#area/sub`
+            const t = '#' + low.replace('tag is ', '').trim().replace(/^#/, '');
+            return task => task.tags.some(tag => {
+                const lower = tag.toLowerCase();
+                return lower === t || lower.startsWith(t + '/');
+            });
+        }
+        if (low.startsWith('priority is not ') || low.startsWith('priority is ')) {
+            const negate = low.startsWith('priority is not ');
+            const p = low.replace(negate ? 'priority is not ' : 'priority is ', '').trim();
+            if (!['high', 'normal', 'low'].includes(p)) throw new QueryError(`Unknown priority "${p}" in "${atom}"`);
+            return task => (task.priority === p) !== negate;
         }
-        if (low.startsWith('priority is ')) {
-            const p = low.replace('priority is ', '').trim();
-            return task.priority === p;
+        // Frontmatter of the note the task lives in
+        const propertyMatch = low.match(/^note property (.+?) (is not|is|includes) (.+)$/);
+        if (propertyMatch) {
+            const [, name, op, value] = propertyMatch;
+            const test = op === 'includes' ? (v: string) => v.includes(value) : (v: string) => v === value;
+            return task => this.noteProperty(task.path, name).some(v => test(v.toLowerCase())) !== (op === 'is not');
         }
-        if (low.startsWith('priority is not ')) {
-            const p = low.replace('priority is not ', '').trim();
-            return task.priority !== p;
+        if (low.startsWith('note has tag ')) {
+            const t = '#' + low.replace('note has tag ', '').trim().replace(/^#/, '');
+            return task => {
+                const cache = this.app.metadataCache.getCache(task.path);
+                const tags = cache ? getAllTags(cache) || [] : [];
+                return tags.some(tag => tag.toLowerCase() === t || tag.toLowerCase().startsWith(t + '/'));
+            };
         }
-        return true;
+        throw new QueryError(`Unknown filter "${atom}"`);
+    }
+
+    // Values of a frontmatter property, whose name is matched case-insensitively. Lists give
+    // one value per item.
+    private noteProperty(path: string, name: string): string[] {
+        const frontmatter = this.app.metadataCache.getCache(path)?.frontmatter;
+        if (!frontmatter) return [];
+
+        const key = Object.keys(frontmatter).find(k => k.toLowerCase() === name);
+        const value = key === undefined ? undefined : frontmatter[key];
+        if (value === undefined || value === null || value === '') return [];
+        return (Array.isArray(value) ? value : [value]).map(v => String(v));
     }
 
     parseConfig(source: string) {
         const lines = source.split('\n').map(l => l.trim()).filter(l => l.length > 0);
         const config = {
-            filters: [] as ((t: FastTask) => boolean)[],
+            filters: [] as TaskFilter[],
+            errors: [] as string[],
             limit: undefined as number | undefined,
-            groupBy: '',
-            sortBy: ''
+            showSubtasks: true,
+            addTo: '',
+            groupBy: [] as string[],
+            sortBy: [] as Array<{ key: string, reverse: boolean }>,
+            layout: 'list'
         };
 
         for (const line of lines) {
@@ -557,54 +2928,131 @@ class FastTodosRenderer extends MarkdownRenderChild {
             if (lowLine.startsWith('limit')) {
                 const num = parseInt(lowLine.replace('limit', '').trim());
                 if (!isNaN(num)) config.limit = num;
+                else config.errors.push(`"${line}": limit needs a number`);
+                continue;
+            }
+            if (lowLine.startsWith('add to ')) {
+                // Keep the original casing, it's a vault path
+                config.addTo = line.slice('add to '.length).trim();
+                continue;
+            }
+            if (lowLine.startsWith('layout ')) {
+                const layout = lowLine.replace('layout ', '').trim();
+                if (LAYOUTS.includes(layout)) config.layout = layout;
+                else config.errors.push(`"${line}": unknown layout "${layout}"`);
+                continue;
+            }
+            if (lowLine === 'show subtasks' || lowLine === 'hide subtasks') {
+                config.showSubtasks = lowLine === 'show subtasks';
                 continue;
             }
             if (lowLine.startsWith('group by')) {
-                config.groupBy = lowLine.replace('group by', '').trim();
+                const field = lowLine.replace('group by', '').trim();
+                if (GROUP_FIELDS.includes(field) || /^property \S/.test(field)) config.groupBy.push(field);
+                else config.errors.push(`"${line}": unknown grouping "${field}"`);
                 continue;
             }
             if (lowLine.startsWith('sort by')) {
-                config.sortBy = lowLine.replace('sort by', '').trim();
+                const match = lowLine.replace('sort by', '').trim().match(/^(.*?)(?:\s+(reverse|desc|asc))?$/)!;
+                const key = SORT_ALIASES[match[1]] || match[1];
+                if (SORT_KEYS.includes(key)) config.sortBy.push({ key, reverse: match[2] === 'reverse' || match[2] === 'desc' });
+                else config.errors.push(`"${line}": unknown sort key "${match[1]}"`);
                 continue;
             }
 
-            // Boolean Logic Parser (Implicit AND between lines, explicit AND/OR on line)
-            // Split by OR first (OR has lower precedence than AND)
-            const orParts = line.split(/\s+OR\s+/);
-            config.filters.push((task: FastTask) => {
-                return orParts.some(orPart => {
-                    // Split each OR segment by AND
-                    const andParts = orPart.split(/\s+AND\s+/);
-                    return andParts.every(andPart => this.evaluateAtom(andPart, task));
-                });
-            });
+            // Boolean Logic Parser (Implicit AND between lines; AND, OR, NOT and parentheses on a line)
+            try {
+                config.filters.push(compileQuery(line, atom => this.compileAtom(atom)));
+            } catch (e) {
+                if (!(e instanceof QueryError)) throw e;
+                config.errors.push(`"${line}": ${e.message}`);
+            }
         }
         return config;
     }
 
-    groupTasks(tasks: FastTask[], groupBy: string) {
-        const groups: Record<string, FastTask[]> = {};
+    // Groups by the first field and nests the rest below it. Without `group by` lines tasks
+    // are grouped by file. Groups keep the order of their first task unless the field has a
+    // natural order (priority, status, dates); groups for missing values come last.
+    groupTasks(tasks: FastTask[], fields: string[]): TaskGroup[] {
+        const [field, ...rest] = fields.length > 0 ? fields : ['filename'];
+        const groups = new Map<string, TaskGroup>();
+
         for (const task of tasks) {
-            let key = task.path.split('/').pop() || task.path;
-            if (groupBy === 'path') key = task.path;
-            if (key.endsWith('.md')) key = key.slice(0, -3);
+            for (const { key, name, sortKey, file } of this.groupKeys(task, field)) {
+                let group = groups.get(key);
+                if (!group) {
+                    group = { key, name, sortKey, file, tasks: [], subgroups: [] };
+                    groups.set(key, group);
+                }
+                group.tasks.push(task);
+            }
+        }
+
+        const result = Array.from(groups.values());
+        result.sort((a, b) => a.sortKey < b.sortKey ? -1 : a.sortKey > b.sortKey ? 1 : 0);
+        if (rest.length > 0) {
+            for (const group of result) group.subgroups = this.groupTasks(group.tasks, rest);
+        }
+        return result;
+    }
 
-            if (!groups[key]) groups[key] = [];
-            groups[key].push(task);
+    // The groups a task belongs to for one field. Tasks with several tags join each tag's group.
+    private groupKeys(task: FastTask, field: string): Array<{ key: string, name: string, sortKey: string, file?: TFile }> {
+        const missing = (name: string) => [{ key: '', name, sortKey: '~' }];
+
+        switch (field) {
+            case 'filename':
+            case 'path': {
+                const file = this.app.vault.getAbstractFileByPath(task.path);
+                const name = field === 'path' ? task.path : task.path.split('/').pop() || task.path;
+                return [{ key: task.path, name: name.replace(/\.md$/, ''), sortKey: '', file: file instanceof TFile ? file : undefined }];
+            }
+            case 'folder': {
+                const slash = task.path.lastIndexOf('/');
+                const folder = slash === -1 ? '/' : task.path.slice(0, slash);
+                return [{ key: folder, name: folder, sortKey: '' }];
+            }
+            case 'tag':
+                if (task.tags.length === 0) return missing('(No tag)');
+                return task.tags.map(tag => ({ key: tag.toLowerCase(), name: tag, sortKey: '' }));
+            case 'priority': {
+                const order = { high: '0', normal: '1', low: '2' };
+                const name = task.priority.charAt(0).toUpperCase() + task.priority.slice(1) + ' priority';
+                return [{ key: task.priority, name, sortKey: order[task.priority] }];
+            }
+            case 'heading':
+                if (!task.heading) return missing('(No heading)');
+                return [{ key: task.heading, name: task.heading, sortKey: '' }];
+            case 'status':
+                return [{ key: task.status.symbol, name: task.status.name, sortKey: String(1000 + activeStatuses.indexOf(task.status)) }];
+            case 'done date':
+                if (!task.completedDate) return missing('No done date');
+                return [{ key: task.completedDate, name: task.completedDate, sortKey: task.completedDate }];
+            case 'due':
+                if (!task.dueDate) return missing('No due date');
+                return [{ key: task.dueDate, name: task.dueDate, sortKey: task.dueDate }];
         }
-        return groups;
+        if (field.startsWith('property ')) {
+            const name = field.replace('property ', '').trim();
+            const values = this.noteProperty(task.path, name);
+            if (values.length === 0) return missing(`No ${name}`);
+            return values.map(value => ({ key: value.toLowerCase(), name: value, sortKey: '' }));
+        }
+        return missing('');
     }
 
     private startCountdown(taskId: string, itemEl: HTMLElement, task: FastTask) {
         if (this.activeCountdowns.has(taskId)) return;
-        this.activeCountdowns.add(taskId);
-        task.completed = true;
+        this.applyVisualStatus(itemEl, task.status);
 
-        this.applyVisualDone(itemEl, true);
+        // A zero-length countdown lets the next index refresh drop the task right away
+        let count = this.plugin.settings.countdownSeconds;
+        if (count <= 0) return;
+        this.activeCountdowns.add(taskId);
 
-        const countdownSpan = itemEl.createSpan({ cls: 'fast-todos-countdown', text: '5' });
+        const countdownSpan = itemEl.createSpan({ cls: 'fast-todos-countdown', text: count.toString() });
 
-        let count = 5;
         const interval = setInterval(() => {
             if (!this.activeCountdowns.has(taskId)) {
                 clearInterval(interval);
@@ -619,29 +3067,62 @@ class FastTodosRenderer extends MarkdownRenderChild {
 
                 // FORCE rendering by clearing the hash shield
                 this.lastRenderedHash = "";
-                FastTodosRenderer.clearCache();
                 this.render();
             }
         }, 1000);
     }
 
-    renderTask(parent: HTMLElement, task: FastTask, file: TFile) {
-        const taskId = `${task.path}:${task.line}`;
+    renderTaskTree(parent: HTMLElement, task: FastTask, file: TFile, nestedUnder: Map<FastTask, FastTask[]>) {
+        const item = this.renderTask(parent, task, file);
+        const nested = nestedUnder.get(task);
+
+        if (task.children.length > 0) {
+            const done = task.children.filter(c => isClosed(c.status)).length;
+            const counter = createSpan({ cls: 'fast-todos-subtask-count', text: `${done}/${task.children.length} subtasks done` });
+            item.insertBefore(counter, item.querySelector('.fast-todos-actions'));
+        }
+        if (!nested || nested.length === 0) return;
+
+        const subList = parent.createDiv({ cls: 'fast-todos-subtasks' });
+        const toggle = createSpan({ cls: 'fast-todos-collapse' });
+        item.prepend(toggle);
+
+        const applyCollapsed = () => {
+            const collapsed = this.collapsedTasks.has(task.id);
+            toggle.setText(collapsed ? '▸' : '▾');
+            subList.toggleClass('is-collapsed', collapsed);
+        };
+        toggle.onclick = () => {
+            if (this.collapsedTasks.has(task.id)) this.collapsedTasks.delete(task.id);
+            else this.collapsedTasks.add(task.id);
+            applyCollapsed();
+        };
+        applyCollapsed();
+
+        for (const child of nested) {
+            this.renderTaskTree(subList, child, file, nestedUnder);
+        }
+    }
+
+    renderTask(parent: HTMLElement, task: FastTask, file: TFile): HTMLElement {
+        const taskId = task.id;
         const item = parent.createDiv({ cls: 'fast-todos-item' });
         item.setAttribute('data-task-id', taskId);
 
-        const checkbox = item.createEl('input', { type: 'checkbox', cls: 'fast-todos-checkbox' });
-        checkbox.checked = task.completed;
-        if (task.completed) checkbox.setAttribute('checked', 'checked');
+        item.toggleClass('is-selected', this.selectedTasks.has(taskId));
+        // Ctrl/Cmd-click adds or removes a task from the selection, Shift-click selects a range
+        item.addEventListener('click', (e) => {
+            if (!(e.shiftKey || e.ctrlKey || e.metaKey)) return;
+            if ((e.target as HTMLElement).closest('input, a, .fast-todos-actions, .fast-todos-collapse')) return;
+            e.preventDefault();
+            this.selectTask(taskId, e.shiftKey);
+        });
 
+        const checkbox = item.createEl('input', { type: 'checkbox', cls: 'fast-todos-checkbox' });
         const textSpan = item.createSpan({ cls: 'fast-todos-text', text: '' });
-        if (task.completed) textSpan.addClass('fast-todos-completed');
+        this.applyVisualStatus(item, task.status);
 
-        const parts = task.cleanText.split(/(#[^\s,]+)/g);
-        for (const part of parts) {
-            if (part && part.startsWith('#')) textSpan.createSpan({ cls: 'fast-todos-tag', text: part });
-            else textSpan.appendText(part);
-        }
+        this.renderTaskText(textSpan, task);
 
         if (task.priority !== 'normal') {
             const pClass = `fast-todos-priority-${task.priority}`;
@@ -649,29 +3130,64 @@ class FastTodosRenderer extends MarkdownRenderChild {
             item.createSpan({ cls: `fast-todos-priority-badge ${pClass}`, text: pLabel });
         }
 
+        // Clicking cycles to the status's configured next status
         checkbox.onclick = async (e) => {
-            const newState = !task.completed;
-            task.completed = newState;
+            const previous = task.status;
+            const next = statusForSymbol(previous.nextSymbol);
+            task.status = next;
 
-            if (newState) {
+            if (isClosed(next)) {
                 this.startCountdown(taskId, item, task);
             } else {
-                this.applyVisualDone(item, false);
+                this.applyVisualStatus(item, next);
                 this.activeCountdowns.delete(taskId);
                 const existingCountdown = item.querySelector('.fast-todos-countdown');
                 if (existingCountdown) existingCountdown.remove();
             }
 
-            const cached = FastTodosRenderer.taskCache.find(t => `${t.path}:${t.line}` === taskId);
-            if (cached) cached.completed = newState;
+            const cached = this.plugin.taskIndex.findTask(taskId);
+            if (cached) cached.status = next;
+
+            // Roll back the optimistic state if the write was refused
+            const operation = await this.toggleTask(task);
+            if (!operation) {
+                task.status = previous;
+                if (cached) cached.status = previous;
+                this.activeCountdowns.delete(taskId);
+                this.lastRenderedHash = "";
+                this.render();
+                return;
+            }
 
-            await this.toggleTask(file, task);
+            // Clicking the countdown undoes the change while the task is still listed
+            const countdown = item.querySelector('.fast-todos-countdown') as HTMLElement | null;
+            if (countdown) {
+                countdown.setAttr('aria-label', 'Undo');
+                countdown.onclick = () => {
+                    this.activeCountdowns.delete(taskId);
+                    // Show the file's state again if the line couldn't be put back
+                    this.plugin.undoOperation(operation)
+                        .then(restored => { if (!restored) this.refresh(); })
+                        .catch(e => {
+                            console.error("Undo failed:", e);
+                            this.refresh();
+                        });
+                };
+            }
         };
 
+        if (task.dueDate && !isClosed(task.status)) {
+            const dueSpan = item.createSpan({ cls: 'fast-todos-due', text: `📅 ${task.dueDate}` });
+            if (task.dueDate < moment().format('YYYY-MM-DD')) dueSpan.addClass('fast-todos-overdue');
+        }
+
         const actionGroup = item.createDiv({ cls: 'fast-todos-actions' });
-        if (task.completed && task.completedDate) {
+        if (task.status.type === 'done' && task.completedDate) {
             actionGroup.createSpan({ cls: 'fast-todos-completed-date', text: ` ✅ ${task.completedDate}` });
         }
+        if (task.status.type === 'cancelled' && task.cancelledDate) {
+            actionGroup.createSpan({ cls: 'fast-todos-completed-date fast-todos-cancelled-date', text: ` ✖ ${task.cancelledDate}` });
+        }
 
         const linkBtn = actionGroup.createSpan({ cls: 'fast-todos-action-btn', text: 'LINK' });
         linkBtn.onclick = (e) => {
@@ -682,86 +3198,486 @@ class FastTodosRenderer extends MarkdownRenderChild {
         const editBtn = actionGroup.createSpan({ cls: 'fast-todos-action-btn', text: 'EDIT' });
         editBtn.onclick = () => {
             new TaskEditModal(this.app, task, async (result) => {
-                const cached = FastTodosRenderer.taskCache.find(t => `${t.path}:${t.line}` === taskId);
+                if (!await this.updateTask(file, task, result)) return;
+
+                const cached = this.plugin.taskIndex.findTask(taskId);
                 if (cached) {
-                    cached.completed = result.completed;
+                    cached.status = statusForSymbol(result.statusSymbol);
                     cached.cleanText = result.description;
                     cached.priority = result.priority;
+                    cached.dueDate = result.dueDate;
+                    cached.recurrence = result.recurrence;
                 }
-                await this.updateTask(file, task, result);
 
                 // Broadcase refresh to all blocks
                 (this.app.workspace as any).trigger('fast-todos:refresh-all');
             }).open();
         };
+        return item;
     }
 
-    async updateTask(file: TFile, task: FastTask, result: { description: string, completed: boolean, priority: 'high' | 'normal' | 'low' }) {
-        try {
-            const content = await this.app.vault.read(file);
-            const lines = content.split('\n');
-            if (task.line >= lines.length) return;
+    private selectTask(taskId: string, range: boolean) {
+        const ids = Array.from(this.containerEl.querySelectorAll('.fast-todos-item')).map(el => el.getAttribute('data-task-id') || '');
+        if (range && this.selectionAnchor && ids.includes(this.selectionAnchor)) {
+            const [from, to] = [ids.indexOf(this.selectionAnchor), ids.indexOf(taskId)].sort((a, b) => a - b);
+            for (const id of ids.slice(from, to + 1)) this.selectedTasks.add(id);
+        } else if (this.selectedTasks.has(taskId)) {
+            this.selectedTasks.delete(taskId);
+        } else {
+            this.selectedTasks.add(taskId);
+        }
+        this.selectionAnchor = taskId;
+        this.updateSelection();
+    }
+
+    private updateSelection() {
+        this.containerEl.querySelectorAll('.fast-todos-item').forEach(el => {
+            el.toggleClass('is-selected', this.selectedTasks.has(el.getAttribute('data-task-id') || ''));
+        });
+        this.renderBatchBar();
+    }
 
-            let line = lines[task.line];
-            if (!line) return;
+    private clearSelection() {
+        this.selectedTasks.clear();
+        this.selectionAnchor = null;
+        this.updateSelection();
+    }
 
-            const taskMatch = line.match(/^(\s*[-*+\d\.\s]*\s*\[[ xX]\]\s*)(.*)/);
-            if (!taskMatch) return;
+    // Action bar shown above the list while tasks are selected
+    private renderBatchBar() {
+        this.containerEl.querySelector(':scope > .fast-todos-batch-bar')?.remove();
+        const tasks = Array.from(this.selectedTasks)
+            .map(id => this.plugin.taskIndex.findTask(id))
+            .filter((t): t is FastTask => !!t);
+        if (tasks.length === 0) return;
+
+        const count = tasks.length === 1 ? '1 task' : `${tasks.length} tasks`;
+        const bar = createDiv({ cls: 'fast-todos-batch-bar' });
+        this.containerEl.prepend(bar);
+        bar.createSpan({ cls: 'fast-todos-batch-count', text: `${count} selected` });
+        const action = (label: string, run: (e: MouseEvent) => void) => {
+            bar.createEl('button', { text: label }).onclick = run;
+        };
 
-            const prefix = taskMatch[1];
-            const basePrefix = prefix.replace(/\[.\]/, result.completed ? '[x]' : '[ ]');
+        action('Complete', () => this.runBatch(tasks, line => setLineStatus(line, statusForType('done')), `Completed ${count}`));
+        action('Reopen', () => this.runBatch(tasks, line => setLineStatus(line, statusForType('todo')), `Reopened ${count}`));
+        action('Priority', (e) => {
+            const menu = new Menu();
+            for (const priority of ['high', 'normal', 'low'] as Array<FastTask['priority']>) {
+                menu.addItem(item => item
+                    .setTitle(priority.charAt(0).toUpperCase() + priority.slice(1))
+                    .onClick(() => this.runBatch(tasks, line => setLinePriority(line, priority), `Set ${count} to ${priority} priority`)));
+            }
+            menu.showAtMouseEvent(e);
+        });
+        action('Add tag', () => new TextPromptModal(this.app, 'Add tag', '#tag', value => {
+            const tag = '#' + value.trim().replace(/^#/, '');
+            if (tag.length === 1) return;
+            const present = new RegExp(`(^|\\s)${escapeRegex(tag)}(?=[\\s,]|$)`, 'i');
+            this.runBatch(tasks, line => present.test(line) ? null : replaceTag(line, null, tag), `Tagged ${count} ${tag}`);
+        }).open());
+        // Both report their own failures; the selection is cleared either way
+        action('Move', () => new TextPromptModal(this.app, 'Move to note', 'Projects/Apollo.md', value => {
+            if (!value.trim()) return;
+            this.plugin.moveTasksToFile(tasks, value.trim()).then(() => this.clearSelection(), () => this.clearSelection());
+        }).open());
+        action('Delete', () => new ConfirmModal(this.app, 'Delete tasks', `Delete ${count} and the lines nested below them? Deletes aren't kept in the undo history.`, 'Delete', () => {
+            this.plugin.deleteTasks(tasks).then(() => this.clearSelection(), () => this.clearSelection());
+        }).open());
+        action('Clear', () => this.clearSelection());
+    }
 
-            // Strip known metadata tags before re-adding
-            let cleanDesc = result.description.replace(/\[(?:priority|completed|completion|created|due):+[^\]]+\]/gi, '').trim();
+    private async runBatch(tasks: FastTask[], rewrite: (line: string) => string | null, label: string) {
+        const operation = await this.plugin.rewriteTasks(tasks, rewrite, label);
+        if (operation) this.plugin.recordOperation(operation);
+        this.clearSelection();
+    }
 
-            if (result.priority && result.priority !== 'normal') {
-                cleanDesc += ` [priority: ${result.priority}]`;
+    // Descriptions with Markdown syntax go through Obsidian's renderer, resolved relative to
+    // the task's note. Plain text (most tasks) keeps the much cheaper span building.
+    private renderTaskText(textSpan: HTMLElement, task: FastTask) {
+        if (!/[\[\]`*_~=<>!$\\]|https?:\/\//.test(task.cleanText)) {
+            const parts = task.cleanText.split(/(#[^\s,]+)/g);
+            for (const part of parts) {
+                if (part && part.startsWith('#')) {
+                    const tagEl = textSpan.createSpan({ cls: 'fast-todos-tag', text: part });
+                    tagEl.onclick = (e) => {
+                        e.stopPropagation();
+                        this.openTagSearch(part);
+                    };
+                } else {
+                    textSpan.appendText(part);
+                }
             }
+            return;
+        }
 
-            let finalLine = basePrefix + cleanDesc;
-            if (result.completed) {
-                const now = moment().format('YYYY-MM-DD');
-                finalLine += ` [completed: ${now}]`;
+        MarkdownRenderer.render(this.app, task.cleanText, textSpan, task.path, this.textComponent || this).then(() => {
+            // Unwrap the paragraph so the text stays on the checkbox row
+            const paragraph = textSpan.querySelector(':scope > p');
+            if (paragraph) paragraph.replaceWith(...Array.from(paragraph.childNodes));
+        }).catch(e => {
+            console.error("Fast Todos: rendering task text failed:", e);
+            textSpan.setText(task.cleanText);
+        });
+
+        // Rendered links aren't wired up outside a note view, so route them here
+        textSpan.onclick = (e) => {
+            const link = (e.target as HTMLElement).closest('a');
+            if (!link) return;
+            if (link.hasClass('tag')) {
+                e.preventDefault();
+                e.stopPropagation();
+                this.openTagSearch(link.getText());
+            } else if (link.hasClass('internal-link')) {
+                e.preventDefault();
+                e.stopPropagation();
+                this.app.workspace.openLinkText(link.getAttr('data-href') || link.getAttr('href') || '', task.path, Keymap.isModEvent(e));
             }
+        };
+    }
 
-            await this.plugin.safeModifyLine(file, task.line, finalLine.trimEnd());
-        } catch (e) {
-            console.error("Update Task failed:", e);
-        }
+    private openTagSearch(tag: string) {
+        const search = (this.app as any).internalPlugins?.getPluginById('global-search')?.instance;
+        if (search) search.openGlobalSearch(`tag:${tag}`);
     }
 
-    async toggleTask(file: TFile, task: FastTask) {
-        try {
-            const content = await this.app.vault.read(file);
-            const lines = content.split('\n');
-            if (task.line >= lines.length) return;
+    // Both writes are recorded in the plugin's history so they can be undone
+    async updateTask(file: TFile, task: FastTask, result: TaskEditResult): Promise<TaskOperation | null> {
+        const operation = await this.plugin.handleTaskUpdate(file, task, result);
+        if (operation) this.plugin.recordOperation(operation);
+        return operation;
+    }
+
+    async toggleTask(task: FastTask): Promise<TaskOperation | null> {
+        return this.rewriteTask(task, line => setLineStatus(line, task.status), `Marked "${shortTaskText(task)}" ${task.status.name.toLowerCase()}`);
+    }
 
-            let line = lines[task.line];
-            if (!line) return;
+    private async rewriteTask(task: FastTask, rewrite: (line: string) => string | null, label: string): Promise<TaskOperation | null> {
+        const operation = await this.plugin.rewriteTasks([task], rewrite, label);
+        if (operation) this.plugin.recordOperation(operation);
+        return operation;
+    }
+}
 
-            const taskMatch = line.match(/^(\s*[-*+\d\.\s]*\s*\[[ xX]\]\s*)(.*)/);
-            if (!taskMatch) return;
+class FastTodosSettingTab extends PluginSettingTab {
+    // Parsing depends on statuses, the priority tag and the stamp format
+    private needsReindex = false;
+    // Latest save, so the index is rebuilt only once the new settings are applied
+    private pendingSave: Promise<void> = Promise.resolve();
 
-            const prefix = taskMatch[1];
-            const rawContent = taskMatch[2];
-            const now = moment().format('YYYY-MM-DD');
+    constructor(app: App, private plugin: FastTodos) {
+        super(app, plugin);
+    }
+
+    display() {
+        const { containerEl } = this;
+        const settings = this.plugin.settings;
+        containerEl.empty();
+
+        const save = (reindex = false) => this.save(reindex);
+
+        containerEl.createEl('h3', { text: 'Stamps & Dates' });
+
+        new Setting(containerEl)
+            .setName('Stamp date format')
+            .setDesc('Moment.js format used inside [completed: ...] and [cancelled: ...], e.g. YYYY-MM-DD HH:mm to include the time.')
+            .addMomentFormat(format => format
+                .setDefaultFormat(DEFAULT_SETTINGS.stampDateFormat)
+                .setValue(settings.stampDateFormat)
+                .onChange(async value => {
+                    settings.stampDateFormat = value.trim() || DEFAULT_SETTINGS.stampDateFormat;
+                    await save(true);
+                }));
+
+        new Setting(containerEl)
+            .setName('Metadata format')
+            .setDesc('How dates, priority and recurrence are written when tasks are edited, stamped or captured. Both formats are always read.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ 'bracket': 'Brackets: [due: 2026-11-01]', 'emoji': 'Tasks emoji: 📅 2026-11-01' })
+                .setValue(settings.taskFormat)
+                .onChange(async value => {
+                    settings.taskFormat = value as TaskFormat;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Folders without auto-stamping')
+            .setDesc('One folder per line. Typing [x] in notes inside these folders leaves the line untouched.')
+            .addTextArea(text => text
+                .setPlaceholder('Templates\nArchive')
+                .setValue(settings.autoStampExcludedFolders.join('\n'))
+                .onChange(async value => {
+                    settings.autoStampExcludedFolders = value.split('\n').map(f => f.trim()).filter(f => f.length > 0);
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Priority tag')
+            .setDesc('Tag name written for priorities, e.g. "p" for [p: high]. [priority: ...] is always read as well.')
+            .addText(text => text
+                .setPlaceholder('priority')
+                .setValue(settings.priorityTag)
+                .onChange(async value => {
+                    settings.priorityTag = value.trim() || DEFAULT_SETTINGS.priorityTag;
+                    await save(true);
+                }));
+
+        containerEl.createEl('h3', { text: 'Timing' });
+
+        this.addNumberSetting(containerEl, 'Completion countdown (seconds)', 'Grace period before a checked task leaves the list. 0 disables it.', 'countdownSeconds');
+        this.addNumberSetting(containerEl, 'Auto-stamp delay (ms)', 'How long to wait after typing before stamps are added or removed.', 'autoStampDelay');
+        this.addNumberSetting(containerEl, 'Block refresh delay (ms)', 'How long todos blocks wait after a note changes before re-rendering.', 'refreshDelay');
+
+        containerEl.createEl('h3', { text: 'Statuses' });
+
+        // Completing and reopening tasks need a status of each of these types
+        const isLastOfRequiredType = (status: TaskStatus) =>
+            (status.type === 'todo' || status.type === 'done')
+            && settings.statuses.filter(s => s.type === status.type).length === 1;
+
+        settings.statuses.forEach((status, index) => {
+            new Setting(containerEl)
+                .addText(text => text
+                    .setPlaceholder('Symbol')
+                    .setValue(status.symbol)
+                    .onChange(async value => {
+                        status.symbol = value.slice(0, 1) || ' ';
+                        await save(true);
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Name')
+                    .setValue(status.name)
+                    .onChange(async value => {
+                        status.name = value;
+                        await save();
+                    }))
+                .addDropdown(dropdown => dropdown
+                    .addOptions({ 'todo': 'Todo', 'in-progress': 'In progress', 'done': 'Done', 'cancelled': 'Cancelled', 'deferred': 'Deferred' })
+                    .setValue(status.type)
+                    .onChange(async value => {
+                        if (isLastOfRequiredType(status)) {
+                            new Notice(`Fast Todos: keep at least one "${status.type}" status.`);
+                            dropdown.setValue(status.type);
+                            return;
+                        }
+                        status.type = value as StatusType;
+                        await save(true);
+                        this.display();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Next')
+                    .setValue(status.nextSymbol)
+                    .onChange(async value => {
+                        status.nextSymbol = value.slice(0, 1) || ' ';
+                        await save();
+                    }))
+                .addExtraButton(btn => btn
+                    .setIcon('trash')
+                    .setTooltip('Remove status')
+                    .setDisabled(isLastOfRequiredType(status))
+                    .onClick(async () => {
+                        if (isLastOfRequiredType(status)) return;
+                        settings.statuses.splice(index, 1);
+                        await save(true);
+                        this.display();
+                    }));
+        });
 
-            const basePrefix = prefix.replace(/\[.\]/, task.completed ? '[x]' : '[ ]');
+        new Setting(containerEl)
+            .setDesc('Symbol, name, type and the symbol a click in a todos block moves to.')
+            .addButton(btn => btn.setButtonText('Add status').onClick(async () => {
+                settings.statuses.push({ symbol: '?', name: 'New status', type: 'todo', nextSymbol: ' ' });
+                await save(true);
+                this.display();
+            }));
 
-            // Strip completion tag, but leave priority alone (it's already in the rawContent)
-            const cleanContent = rawContent.replace(this.completionRegex, '').trim();
+        containerEl.createEl('h3', { text: 'Archive' });
+
+        this.addTextSetting(containerEl, 'Archive note', 'Archive.md', 'archivePath');
+        this.addNumberSetting(containerEl, 'Archive after (days)', 'Done tasks completed longer ago than this are archived.', 'archiveAfterDays');
+        new Setting(containerEl)
+            .setName('Archive automatically')
+            .setDesc('Archive old completed tasks from the whole vault at startup and every hour, without a preview.')
+            .addToggle(toggle => toggle
+                .setValue(settings.autoArchive)
+                .onChange(async value => {
+                    settings.autoArchive = value;
+                    await save();
+                }));
+
+        containerEl.createEl('h3', { text: 'Dashboard & Capture' });
+
+        new Setting(containerEl)
+            .setName('Dashboard query')
+            .setDesc('Query used by the sidebar task dashboard.')
+            .addTextArea(text => text
+                .setValue(settings.dashboardQuery)
+                .onChange(async value => {
+                    settings.dashboardQuery = value;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Capture destination')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ 'inbox': 'Inbox file', 'daily': 'Daily note', 'heading': 'Heading in a note' })
+                .setValue(settings.captureDestination)
+                .onChange(async value => {
+                    settings.captureDestination = value as FastTodosSettings['captureDestination'];
+                    await save();
+                    this.display();
+                }));
+
+        if (settings.captureDestination === 'inbox') {
+            this.addTextSetting(containerEl, 'Inbox file', 'Inbox.md', 'inboxPath');
+        } else if (settings.captureDestination === 'daily') {
+            this.addTextSetting(containerEl, 'Daily note path', 'Daily/{{YYYY-MM-DD}}.md', 'dailyNotePath');
+        } else {
+            this.addTextSetting(containerEl, 'Note', 'Tasks.md', 'captureNotePath');
+            this.addTextSetting(containerEl, 'Heading', 'Inbox', 'captureHeading');
+        }
+    }
 
-            let finalLine = basePrefix + cleanContent;
-            if (task.completed) {
-                finalLine += ` [completed: ${now}]`;
-            }
-            await this.plugin.safeModifyLine(file, task.line, finalLine.trimEnd());
-        } catch (e) {
-            console.error("Toggle Task failed:", e);
+    async hide() {
+        await this.pendingSave;
+        if (this.needsReindex) {
+            this.needsReindex = false;
+            await this.plugin.taskIndex.build();
         }
     }
+
+    private save(reindex = false): Promise<void> {
+        if (reindex) this.needsReindex = true;
+        this.pendingSave = this.pendingSave
+            .then(() => this.plugin.saveSettings())
+            .catch(e => {
+                console.error("Saving settings failed:", e);
+                new Notice('Fast Todos: could not save settings. Check console.');
+            });
+        return this.pendingSave;
+    }
+
+    private addNumberSetting(containerEl: HTMLElement, name: string, desc: string, key: 'countdownSeconds' | 'autoStampDelay' | 'refreshDelay' | 'archiveAfterDays') {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.setValue(String(this.plugin.settings[key]))
+                    .onChange(async value => {
+                        const num = parseInt(value);
+                        if (isNaN(num) || num < 0) return;
+                        this.plugin.settings[key] = num;
+                        await this.save();
+                    });
+            });
+    }
+
+    private addTextSetting(containerEl: HTMLElement, name: string, placeholder: string, key: 'inboxPath' | 'dailyNotePath' | 'captureNotePath' | 'captureHeading' | 'archivePath') {
+        new Setting(containerEl)
+            .setName(name)
+            .addText(text => text
+                .setPlaceholder(placeholder)
+                .setValue(this.plugin.settings[key])
+                .onChange(async value => {
+                    this.plugin.settings[key] = value.trim();
+                    await this.save();
+                }));
+    }
 }
 
+// Sidebar view that runs the configured dashboard query through a FastTodosRenderer,
+// so it shares the filter/sort/group pipeline and the checkbox, LINK and EDIT actions.
+class TaskDashboardView extends ItemView {
+    private renderer: FastTodosRenderer | null = null;
+    private search = '';
+    private toggles: Record<string, boolean> = { 'not done': true, 'done today': false, 'priority is high': false };
+
+    constructor(leaf: WorkspaceLeaf, private plugin: FastTodos) {
+        super(leaf);
+    }
+
+    getViewType() {
+        return VIEW_TYPE_DASHBOARD;
+    }
+
+    getDisplayText() {
+        return 'Task dashboard';
+    }
+
+    getIcon() {
+        return 'list-checks';
+    }
+
+    async onOpen() {
+        const root = this.contentEl;
+        root.empty();
+        root.addClass('fast-todos-dashboard');
+
+        const toolbar = root.createDiv({ cls: 'fast-todos-dashboard-toolbar' });
+        const searchInput = toolbar.createEl('input', { type: 'search', placeholder: 'Search tasks...', cls: 'fast-todos-dashboard-search' });
+        searchInput.oninput = () => {
+            this.search = searchInput.value.toLowerCase().trim();
+            this.renderer?.refresh();
+        };
+
+        const chips = toolbar.createDiv({ cls: 'fast-todos-dashboard-toggles' });
+        const labels: Record<string, string> = { 'not done': 'Not done', 'done today': 'Done today', 'priority is high': 'High priority' };
+        // Together these would match no task, so turning one on turns the other off
+        const conflicts: Record<string, string> = { 'not done': 'done today', 'done today': 'not done' };
+        const chipEls: Record<string, HTMLElement> = {};
+        for (const line of Object.keys(this.toggles)) {
+            const chip = chips.createSpan({ cls: 'fast-todos-action-btn', text: labels[line] });
+            chipEls[line] = chip;
+            chip.toggleClass('is-active', this.toggles[line]);
+            chip.onclick = () => {
+                this.toggles[line] = !this.toggles[line];
+                const conflict = conflicts[line];
+                if (this.toggles[line] && conflict) this.toggles[conflict] = false;
+                for (const key of Object.keys(chipEls)) chipEls[key].toggleClass('is-active', this.toggles[key]);
+                this.updateSource();
+            };
+        }
+
+        const queryToggle = chips.createSpan({ cls: 'fast-todos-action-btn', text: 'Query' });
+        const queryEditor = toolbar.createEl('textarea', { cls: 'fast-todos-dashboard-query' });
+        queryEditor.value = this.plugin.settings.dashboardQuery;
+        queryEditor.hide();
+        queryToggle.onclick = () => queryEditor.toggle(!queryEditor.isShown());
+        queryEditor.onchange = async () => {
+            this.plugin.settings.dashboardQuery = queryEditor.value;
+            await this.plugin.saveSettings();
+            this.updateSource();
+        };
+
+        const body = root.createDiv({ cls: 'fast-todos-dashboard-body' });
+        this.renderer = new FastTodosRenderer(body, this.app, this.buildSource(), '', this.plugin);
+        this.renderer.extraFilter = (task) => !this.search
+            || task.cleanText.toLowerCase().includes(this.search)
+            || task.path.toLowerCase().includes(this.search);
+        this.addChild(this.renderer);
+    }
+
+    async onClose() {
+        if (this.renderer) this.removeChild(this.renderer);
+        this.renderer = null;
+    }
+
+    private buildSource(): string {
+        const lines = [this.plugin.settings.dashboardQuery];
+        for (const [line, enabled] of Object.entries(this.toggles)) {
+            if (enabled) lines.push(line);
+        }
+        return lines.join('\n');
+    }
+
+    private updateSource() {
+        if (!this.renderer) return;
+        this.renderer.source = this.buildSource();
+        this.renderer.refresh();
+    }
+}
 
 export class CompletionStampWidget extends WidgetType {
     constructor(readonly text: string) {
@@ -805,10 +3721,8 @@ class EditButtonWidget extends WidgetType {
             const file = this.app.vault.getAbstractFileByPath(this.filePath);
             if (file instanceof TFile) {
                 // Parse current text
-                const match = text.match(/^(\s*[-*+\d\.\s]*\s*\[([ xX])\])(.*)/);
-                if (match) {
-                    const isCompleted = match[2].toLowerCase() === 'x';
-                    const task = this.plugin.parseTaskLine(text, lineNum, this.filePath, isCompleted);
+                if (matchTaskLine(text)) {
+                    const task = this.plugin.parseTaskLine(text, lineNum, this.filePath);
 
                     new (this.plugin.TaskEditModalClass)(this.app, task, async (result: any) => {
                         await this.plugin.handleTaskUpdate(file, task, result);
@@ -849,7 +3763,7 @@ export function editButtonPlugin(app: App, plugin: any) {
                     const text = line.text;
 
                     // Decoration for completion tag as an ATOMIC REPLACE decoration
-                    const tagMatch = text.match(/\[(?:completed|completion):\s*[^\]]*\]/i);
+                    const tagMatch = text.match(/\[(?:completed|completion|cancelled):\s*[^\]]*\]/i);
                     if (tagMatch && tagMatch.index !== undefined) {
                         builder.add(
                             line.from + tagMatch.index,
@@ -861,7 +3775,7 @@ export function editButtonPlugin(app: App, plugin: any) {
                     }
 
                     // Regex for task
-                    if (text.match(/^\s*[-*+\d\.\s]*\s*\[[ xX]\]/)) {
+                    if (matchTaskLine(text)) {
                         // Add widget at the end of the line
                         builder.add(line.to, line.to, Decoration.widget({
                             widget: new EditButtonWidget(app, text, line.number - 1, file.path, plugin),